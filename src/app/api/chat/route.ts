@@ -2,12 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
-import { setupQASystemWithLlamaCloud } from '@/lib/vector-store';
-import { Document } from '@langchain/core/documents';
+import { loadDocumentVectorStore } from '@/lib/vector-store';
+import { answerQuestion, type SelectedPassage } from '@/lib/qa-system';
+import { encodeServerSentEvent } from '@/lib/chat-stream';
+import { loadConversationHistory } from '@/lib/conversation-memory';
+import { findUserConversation, saveConversationTurn, serializeSourceDocuments } from '@/lib/conversations';
+import { getDocumentPageTexts } from '@/lib/excerpt-locator';
+import { verifyCitations } from '@/lib/citation-verification';
+import type { ChatResponse } from '@/types/chat';
+import { createHybridRetriever, resolveChunkScope, retrievalOptionsSchema } from '@/lib/hybrid-retrieval';
+import { parseQuestionScope, questionScopeSchema } from '@/lib/question-scope';
 
 /**
  * Chat with document 
  * POST /api/chat
+ * Send `stream: true` to receive the answer as Server-Sent Events
  */
 export async function POST(request: NextRequest) {
   try {
@@ -19,7 +28,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { message, documentId } = await request.json();
+    const { message, documentId, conversationId, stream, passage, retrieval, scope } = await request.json();
 
     if (!message || !documentId) {
       return NextResponse.json(
@@ -28,74 +37,199 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Load document and QA system
+    // Optional text selected in the viewer that the question is about
+    if (passage && (typeof passage.text !== 'string' || !passage.text.trim() || !Number.isInteger(passage.pageNumber))) {
+      return NextResponse.json(
+        { error: 'Passage must include text and a page number' },
+        { status: 400 }
+      );
+    }
+    const selectedPassage: SelectedPassage | undefined = passage
+      ? { text: passage.text.trim(), pageNumber: passage.pageNumber }
+      : undefined;
+
+    // Optional overrides of k, the fusion weights and reranking
+    const retrievalOptions = retrievalOptionsSchema.safeParse(retrieval ?? {});
+    if (!retrievalOptions.success) {
+      return NextResponse.json(
+        { error: `Invalid retrieval options: ${retrievalOptions.error.issues.map(issue => `${issue.path.join('.') || 'retrieval'}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Optional page range or section to answer from, otherwise taken from phrases like "on page 12"
+    const questionScope = scope != null ? questionScopeSchema.safeParse(scope) : null;
+    if (questionScope && !questionScope.success) {
+      return NextResponse.json(
+        { error: `Invalid scope: ${questionScope.error.issues.map(issue => `${issue.path.join('.') || 'scope'}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+    const requestedScope = questionScope ? questionScope.data : parseQuestionScope(message);
+
+    // Verify document ownership
     const document = await prisma.document.findUnique({ 
       where: { id: documentId, userId: session.user.id } 
-    }) as any;
+    });
 
-    if (!document || !(document as any).chunks) {
+    if (!document) {
       return NextResponse.json(
         { error: 'Document not found or not processed' },
         { status: 404 }
       );
     }
 
-    // Convert stored JSON chunks back to Document objects
-    const storedChunks = (document as any).chunks as any[];
-    const documents = storedChunks.map(chunk => 
-      new Document({
-        pageContent: chunk.pageContent,
-        metadata: chunk.metadata || {}
-      })
-    );
-
-    // Recreate QA system from stored chunks
-    const qaSystem = await setupQASystemWithLlamaCloud(documents);
-    if (!qaSystem) {
+    if (document.processingStatus !== 'READY') {
       return NextResponse.json(
-        { error: 'Failed to initialize QA system' },
-        { status: 500 }
+        { error: 'Document is still being processed. Please try again in a moment.' },
+        { status: 409 }
       );
     }
 
-    console.log('Generating response with OpenAI...');
+    // Load the precomputed chunk embeddings - only the question gets embedded here
+    const vectorStore = await loadDocumentVectorStore(document.id);
+    if (!vectorStore) {
+      return NextResponse.json(
+        { error: 'Document not found or not processed' },
+        { status: 404 }
+      );
+    }
 
-    
-    const result = await qaSystem.invoke({ query: message });
-    
-     let answer: string;
-    let sources: string;
-    
-    try {
-      const parsedResult = JSON.parse(result.text);
-      console.log('Parsed JSON result:', parsedResult);
-      answer = parsedResult.answer;
-      sources = parsedResult.sources;
-    } catch (jsonError) {
-      console.log('JSON parsing failed, using raw result');
-      // Handle JSON parsing failure (exact same as lines 235-237)
-      answer = result.text;
-      sources = "";
+    // The thread this message belongs to - without one, a thread is started when the answer is stored
+    const conversation = conversationId
+      ? await findUserConversation(conversationId, session.user.id, documentId)
+      : null;
+    if (conversationId && !conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
     }
-    
-    console.log('Final answer:', answer);
-    console.log('Final sources:', sources);
-    
-    // Use AI's processed sources (more relevant) but handle text format differences
-    // This ensures we highlight only text that was actually used in the response
-    const sourceArray = typeof sources === 'string' ? sources.split(". ") : [];
-    
-    console.log('Processed sources for highlighting:', sourceArray);
-    
-    const response = {
-      answer,
-      sources: sourceArray,
-      sourceDocuments: result.sourceDocuments
+
+    // Embedding and keyword search over the document's chunks in scope, fused
+    // Only the scope actually searched is stored and returned, so answers never claim one they ignored
+    const resolvedScope = await resolveChunkScope(document.id, requestedScope);
+    const retriever = createHybridRetriever(document.id, vectorStore, retrievalOptions.data, resolvedScope);
+
+    // Prior turns let follow-up questions refer back to earlier answers
+    const history = conversation ? await loadConversationHistory(conversation.id) : [];
+
+    // Answer with validated structured output and store the exchange
+    const generateAnswer = async (
+      onToken?: (text: string) => void,
+      onRetry?: (attempt: number, reason: string) => void
+    ): Promise<ChatResponse> => {
+      console.log('Generating response with OpenAI...');
+
+      const { answer, citations: answerCitations, confidence, retrievalQuery, sourceDocuments: retrievedDocuments } = await answerQuestion(
+        retriever,
+        message,
+        { history, onToken, onRetry, passage: selectedPassage }
+      );
+
+      // Check the quotes really are in the document before they get highlighted
+      const fileUrl = document.fileUrl;
+      const citations = await verifyCitations(answerCitations, retrievedDocuments, async () => {
+        try {
+          return fileUrl ? await getDocumentPageTexts({ id: document.id, fileUrl }) : null;
+        } catch (error) {
+          // Non-critical, the quotes are still checked against the retrieved chunks
+          console.warn('Failed to read the PDF to verify citations:', error);
+          return null;
+        }
+      });
+      
+      const unsupportedCount = citations.filter(citation => !citation.verification.supported).length;
+      console.log(`Answer generated with ${citations.length} citations, ${unsupportedCount} unsupported`);
+
+      // Quotes the AI actually used and the document backs - these are what get highlighted in the PDF
+      const sources = citations
+        .filter(citation => citation.verification.supported)
+        .map(citation => citation.quote);
+      const sourceDocuments = serializeSourceDocuments(retrievedDocuments);
+
+      // Persist both sides of the exchange so the thread survives across devices
+      const { conversationId: savedConversationId, userMessage, assistantMessage } = await saveConversationTurn(
+        conversation || { userId: session.user.id, documentId: document.id },
+        message,
+        answer,
+        {
+          sources,
+          citations,
+          confidence,
+          retrievalQuery,
+          sourceDocuments,
+          pageMappings: [],
+          ...(resolvedScope && { scope: { ...resolvedScope } })
+        },
+        (selectedPassage || resolvedScope) ? {
+          ...(selectedPassage && { passage: { ...selectedPassage } }),
+          ...(resolvedScope && { scope: { ...resolvedScope } })
+        } : undefined
+      );
+      
+      return {
+        answer,
+        sources,
+        citations,
+        confidence,
+        sourceDocuments,
+        scope: resolvedScope,
+        conversationId: savedConversationId,
+        userMessageId: userMessage.id,
+        messageId: assistantMessage.id
+      };
     };
-    
-    console.log('Final API response:', response);
-    
-    return NextResponse.json(response);
+
+    if (!stream) {
+      const response = await generateAnswer();
+      return NextResponse.json(response);
+    }
+
+    // Streaming mode - emit answer tokens as Server-Sent Events, then the full result
+    const encoder = new TextEncoder();
+    let isClosed = false;
+    const body = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (isClosed) return;
+          controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+        };
+
+        try {
+          const response = await generateAnswer(
+            (text) => send('token', { text }),
+            // Malformed output is regenerated - drop the text streamed so far
+            (attempt, reason) => send('reset', { attempt, reason })
+          );
+          send('done', response);
+        } catch (error) {
+          console.error('Chat stream error:', error);
+          send('error', {
+            error: 'Chat failed',
+            details: error instanceof Error ? error.message : 'Unknown error'
+          });
+        } finally {
+          if (!isClosed) {
+            isClosed = true;
+            controller.close();
+          }
+        }
+      },
+
+      // The client went away - generation carries on so the turn is still stored
+      cancel() {
+        isClosed = true;
+      }
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    });
     
   } catch (error) {
     console.error('Chat error:', error);
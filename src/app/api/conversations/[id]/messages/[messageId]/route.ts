@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import type { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { messageHighlightsUpdateSchema } from '@/lib/conversations';
+
+/**
+ * Store the page mappings and citation markers of an answer once the client has resolved its highlights
+ * PATCH /api/conversations/[id]/messages/[messageId]
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId, messageId } = await params;
+    const validation = messageHighlightsUpdateSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: validation.error.issues[0]?.message || 'Invalid message update' } },
+        { status: 400 }
+      );
+    }
+
+    const { metadata } = validation.data;
+
+    // Verify the answer belongs to one of the user's conversations
+    const existingMessage = await prisma.message.findFirst({
+      where: {
+        id: messageId,
+        conversationId,
+        role: 'ASSISTANT',
+        conversation: {
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!existingMessage) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Message not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Merge metadata so fields written by /api/chat are preserved
+    const existingMetadata = (existingMessage.metadata || {}) as Prisma.JsonObject;
+
+    const updatedMessage = await prisma.message.update({
+      where: {
+        id: messageId,
+      },
+      data: {
+        metadata: { ...existingMetadata, ...metadata },
+      },
+    });
+
+    return NextResponse.json(
+      { data: updatedMessage },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating message:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update message' } },
+      { status: 500 }
+    );
+  }
+}
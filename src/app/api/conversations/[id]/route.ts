@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { findUserConversation } from '@/lib/conversations';
+import { deleteConversationAnnotations } from '@/lib/annotations';
+
+/**
+ * Get a conversation with its messages
+ * GET /api/conversations/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: session.user.id, // Ensure user owns the conversation
+      },
+      include: {
+        messages: {
+          orderBy: {
+            timestamp: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Conversation not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { data: conversation },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch conversation' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Rename or archive a conversation
+ * PATCH /api/conversations/[id]
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+    const body = await request.json();
+    const title = typeof body.title === 'string' ? body.title.trim() : undefined;
+    const archived = typeof body.archived === 'boolean' ? body.archived : undefined;
+
+    if (title === '' || (title === undefined && archived === undefined)) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_DATA', message: 'A non-empty title or archived flag is required' } },
+        { status: 400 }
+      );
+    }
+
+    // Verify conversation ownership
+    const existingConversation = await findUserConversation(conversationId, session.user.id);
+
+    if (!existingConversation) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Conversation not found' } },
+        { status: 404 }
+      );
+    }
+
+    const updatedConversation = await prisma.conversation.update({
+      where: {
+        id: conversationId,
+      },
+      data: {
+        ...(title && { title }),
+        ...(archived !== undefined && { archivedAt: archived ? new Date() : null }),
+      },
+    });
+
+    return NextResponse.json(
+      { data: updatedConversation },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update conversation' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a conversation
+ * DELETE /api/conversations/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+
+    // Verify conversation ownership
+    const conversation = await findUserConversation(conversationId, session.user.id);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Conversation not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Highlights only exist for the thread's answers, so they go with it
+    await deleteConversationAnnotations(conversationId);
+
+    // Cascading deletes will remove the messages
+    await prisma.conversation.delete({
+      where: {
+        id: conversationId,
+      },
+    });
+
+    return NextResponse.json(
+      { data: { message: 'Conversation deleted successfully' } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to delete conversation' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+/**
+ * List the user's conversations, optionally for a single document
+ * GET /api/conversations?documentId=...&includeArchived=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const documentId = searchParams.get('documentId');
+    const includeArchived = searchParams.get('includeArchived') === 'true';
+
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        userId: session.user.id,
+        ...(documentId && { documentId }),
+        ...(!includeArchived && { archivedAt: null }),
+      },
+      include: {
+        _count: {
+          select: {
+            messages: true,
+          },
+        },
+      },
+      orderBy: {
+        lastMessageAt: 'desc',
+      },
+    });
+
+    // Transform data for frontend
+    const transformedConversations = conversations.map((conversation) => ({
+      id: conversation.id,
+      title: conversation.title,
+      documentId: conversation.documentId,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      lastMessageAt: conversation.lastMessageAt,
+      archivedAt: conversation.archivedAt,
+      messageCount: conversation._count.messages,
+    }));
+
+    return NextResponse.json(
+      { data: transformedConversations },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch conversations' } },
+      { status: 500 }
+    );
+  }
+}
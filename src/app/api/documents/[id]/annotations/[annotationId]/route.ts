@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import type { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { annotationInclude, annotationUpdateSchema, serializeAnnotation } from '@/lib/annotations';
+
+/**
+ * Move, resize, restyle or edit the note of one of the user's own annotations
+ * PATCH /api/documents/[id]/annotations/[annotationId]
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId, annotationId } = await params;
+    const validation = annotationUpdateSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: validation.error.issues[0]?.message || 'Invalid annotation' } },
+        { status: 400 }
+      );
+    }
+
+    // AI highlights are read-only, users can only edit what they drew
+    const annotation = await prisma.annotation.findFirst({
+      where: {
+        id: annotationId,
+        documentId,
+        source: 'USER',
+        userId: session.user.id,
+      },
+      select: { id: true },
+    });
+
+    if (!annotation) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Annotation not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { pageNumber, coordinates, content, color, opacity } = validation.data;
+
+    const updatedAnnotation = await prisma.annotation.update({
+      where: {
+        id: annotationId,
+      },
+      data: {
+        ...(pageNumber !== undefined && { pageNumber }),
+        ...(coordinates && { coordinates: coordinates as Prisma.InputJsonObject }),
+        ...(content !== undefined && { content }),
+        ...(color && { color }),
+        ...(opacity !== undefined && { opacity }),
+      },
+      include: annotationInclude,
+    });
+
+    return NextResponse.json(
+      { data: serializeAnnotation(updatedAnnotation) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update annotation' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import {
+  annotationInclude,
+  annotationInputSchema,
+  createAnnotations,
+  findUserDocument,
+  serializeAnnotation,
+  visibleAnnotationsWhere
+} from '@/lib/annotations';
+
+const createAnnotationsSchema = z.object({
+  annotations: z.array(annotationInputSchema).min(1),
+  messageId: z.string().optional(),
+});
+
+const deleteAnnotationsSchema = z.object({
+  annotationIds: z.array(z.string()).optional(),
+  messageId: z.string().optional(),
+}).refine(body => body.annotationIds?.length || body.messageId, {
+  message: 'annotationIds or messageId is required',
+});
+
+/**
+ * List a document's AI highlights and the signed-in user's own annotations
+ * GET /api/documents/[id]/annotations?messageId=...
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+    const messageId = request.nextUrl.searchParams.get('messageId');
+
+    const document = await findUserDocument(documentId, session.user.id);
+    if (!document) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    const annotations = await prisma.annotation.findMany({
+      where: {
+        ...visibleAnnotationsWhere(documentId, session.user.id),
+        ...(messageId && {
+          messageAnnotations: { some: { messageId } },
+        }),
+      },
+      include: annotationInclude,
+      orderBy: [
+        { pageNumber: 'asc' },
+        { createdAt: 'asc' },
+      ],
+    });
+
+    return NextResponse.json(
+      { data: annotations.map(serializeAnnotation) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching annotations:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch annotations' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Store AI highlights for an assistant message, or annotations drawn by the user
+ * POST /api/documents/[id]/annotations
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+    const validation = createAnnotationsSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: validation.error.issues[0]?.message || 'Invalid annotations' } },
+        { status: 400 }
+      );
+    }
+
+    const { annotations, messageId } = validation.data;
+
+    const document = await findUserDocument(documentId, session.user.id);
+    if (!document) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Only link to assistant messages from this user's threads on this document
+    if (messageId) {
+      const message = await prisma.message.findFirst({
+        where: {
+          id: messageId,
+          role: 'ASSISTANT',
+          conversation: {
+            documentId,
+            userId: session.user.id,
+          },
+        },
+        select: { id: true },
+      });
+
+      if (!message) {
+        return NextResponse.json(
+          { error: { code: 'NOT_FOUND', message: 'Message not found' } },
+          { status: 404 }
+        );
+      }
+    }
+
+    const created = await createAnnotations(documentId, annotations, {
+      messageId,
+      userId: session.user.id,
+    });
+
+    return NextResponse.json(
+      { data: created.map(serializeAnnotation) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating annotations:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to create annotations' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete annotations by id, or every annotation linked to a message
+ * DELETE /api/documents/[id]/annotations
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+    const validation = deleteAnnotationsSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: validation.error.issues[0]?.message || 'Invalid request' } },
+        { status: 400 }
+      );
+    }
+
+    const { annotationIds, messageId } = validation.data;
+
+    const document = await findUserDocument(documentId, session.user.id);
+    if (!document) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Only AI highlights and the user's own annotations can be removed
+    const { count } = await prisma.annotation.deleteMany({
+      where: {
+        ...visibleAnnotationsWhere(documentId, session.user.id),
+        ...(annotationIds?.length && { id: { in: annotationIds } }),
+        ...(messageId && {
+          messageAnnotations: { some: { messageId } },
+        }),
+      },
+    });
+
+    return NextResponse.json(
+      { data: { deleted: count } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting annotations:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to delete annotations' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { visibleAnnotationsWhere } from '@/lib/annotations';
+import { findUserConversation } from '@/lib/conversations';
+import { exportAnnotatedPdf, type ExportOptions } from '@/lib/pdf-export';
+
+// Force Node.js runtime for MuPDF.js server-side usage
+export const runtime = 'nodejs';
+
+/**
+ * Download the PDF with AI highlights and the user's annotations written into it
+ * GET /api/documents/[id]/export?conversationId=...
+ * When a conversation is given its transcript is appended as extra pages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+    const conversationId = request.nextUrl.searchParams.get('conversationId');
+
+    const document = await prisma.document.findFirst({
+      where: {
+        id: documentId,
+        userId: session.user.id,
+      },
+      select: {
+        id: true,
+        title: true,
+        fileUrl: true,
+        originalName: true,
+      },
+    });
+
+    if (!document || !document.fileUrl) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    const options: ExportOptions = { userName: session.user.name };
+
+    if (conversationId) {
+      const conversation = await findUserConversation(conversationId, session.user.id, documentId);
+      if (!conversation) {
+        return NextResponse.json(
+          { error: { code: 'NOT_FOUND', message: 'Conversation not found' } },
+          { status: 404 }
+        );
+      }
+
+      const messages = await prisma.message.findMany({
+        where: { conversationId },
+        orderBy: { timestamp: 'asc' },
+        select: { role: true, content: true, timestamp: true },
+      });
+
+      options.transcript = {
+        title: conversation.title || document.title,
+        messages,
+      };
+    }
+
+    const annotations = await prisma.annotation.findMany({
+      where: visibleAnnotationsWhere(documentId, session.user.id, conversationId || undefined),
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Fetch PDF content from storage
+    const response = await fetch(document.fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch PDF: ${response.status}`);
+    }
+
+    const pdf = exportAnnotatedPdf(
+      new Uint8Array(await response.arrayBuffer()),
+      annotations,
+      options
+    );
+
+    const filename = `${(document.originalName || document.title).replace(/\.pdf$/i, '')}-annotated.pdf`;
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting document:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to export document' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { findInPdf } from '@/lib/pdf-search';
+import { openDocumentPdf } from '@/lib/pdf-cache';
+
+// Force Node.js runtime for MuPDF.js server-side usage
+export const runtime = 'nodejs';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_HITS = 1000;
+
+/**
+ * Find every occurrence of a word or phrase in the PDF
+ * GET /api/documents/[id]/find?q=...
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+    const query = request.nextUrl.searchParams.get('q')?.replace(/\s+/g, ' ').trim() || '';
+
+    if (!query || query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: `Search text must be 1-${MAX_QUERY_LENGTH} characters` } },
+        { status: 400 }
+      );
+    }
+
+    const document = await prisma.document.findFirst({
+      where: {
+        id: documentId,
+        userId: session.user.id,
+      },
+      select: {
+        fileUrl: true,
+      },
+    });
+
+    if (!document || !document.fileUrl) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    // The viewer searches as the user types, so the PDF is only downloaded and opened once
+    const pdf = await openDocumentPdf({ id: documentId, fileUrl: document.fileUrl });
+    const { hits, truncated } = findInPdf(pdf, query, MAX_HITS);
+
+    return NextResponse.json(
+      { data: { query, hits, truncated } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error searching document:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to search document' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { extractOutline } from '@/lib/mupdf-parse';
+import { openDocumentPdf } from '@/lib/pdf-cache';
+
+// Force Node.js runtime for MuPDF.js server-side usage
+export const runtime = 'nodejs';
+
+/**
+ * Get the PDF's table of contents for chapter navigation
+ * GET /api/documents/[id]/outline
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+
+    const document = await prisma.document.findFirst({
+      where: {
+        id: documentId,
+        userId: session.user.id,
+      },
+      select: {
+        fileUrl: true,
+      },
+    });
+
+    if (!document || !document.fileUrl) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Shares the open PDF with find in document
+    const pdf = await openDocumentPdf({ id: documentId, fileUrl: document.fileUrl });
+    const outline = extractOutline(pdf);
+
+    return NextResponse.json(
+      { data: outline },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error reading document outline:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to read document outline' } },
+      { status: 500 }
+    );
+  }
+}
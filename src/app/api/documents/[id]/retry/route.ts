@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { enqueueIngestion, runIngestionWorker } from '@/lib/ingestion';
+
+/**
+ * Re-queue a document whose processing failed
+ * POST /api/documents/[id]/retry
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+
+    // Verify document ownership
+    const document = await prisma.document.findFirst({
+      where: {
+        id: documentId,
+        userId: session.user.id,
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (document.processingStatus !== 'FAILED') {
+      return NextResponse.json(
+        { error: { code: 'INVALID_STATE', message: 'Only failed documents can be retried' } },
+        { status: 409 }
+      );
+    }
+
+    await enqueueIngestion(document.id);
+
+    after(async () => {
+      await runIngestionWorker({ maxJobs: 1 });
+    });
+
+    return NextResponse.json(
+      { data: { id: document.id, processingStatus: 'QUEUED' } },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error retrying document processing:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to retry document processing' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { hasStaleIngestionJob, runIngestionWorker } from '@/lib/ingestion';
+
+/**
+ * Get the processing status of a document
+ * GET /api/documents/[id]/status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id: documentId } = await params;
+
+    const document = await prisma.document.findFirst({
+      where: {
+        id: documentId,
+        userId: session.user.id,
+      },
+      select: {
+        id: true,
+        pageCount: true,
+        processingStatus: true,
+        processingError: true,
+        processingProgress: true,
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Polling doubles as a nudge for the queue in case the upload's worker was cut short,
+    // or died mid-job and left it RUNNING - the worker reclaims or fails such jobs
+    const isInProgress = document.processingStatus === 'PARSING' || document.processingStatus === 'EMBEDDING';
+    if (document.processingStatus === 'QUEUED' || (isInProgress && await hasStaleIngestionJob(document.id))) {
+      after(async () => {
+        await runIngestionWorker({ maxJobs: 1 });
+      });
+    }
+
+    return NextResponse.json(
+      { data: document },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching document status:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch document status' } },
+      { status: 500 }
+    );
+  }
+}
@@ -34,29 +34,25 @@ export async function GET(request: NextRequest) {
       };
     }
 
-    // Fetch documents with conversation counts
+    // Fetch documents with their (non-archived) conversation threads
     const documents = await prisma.document.findMany({
       where,
       include: {
         conversations: {
+          where: {
+            archivedAt: null,
+          },
           select: {
             id: true,
-            updatedAt: true,
-                      messages: {
-            select: {
-              id: true,
-              timestamp: true,
-            },
-            orderBy: {
-              timestamp: 'desc',
+            lastMessageAt: true,
+            _count: {
+              select: {
+                messages: true,
+              },
             },
-            take: 1,
-          },
           },
-        },
-        _count: {
-          select: {
-            conversations: true,
+          orderBy: {
+            lastMessageAt: 'desc',
           },
         },
       },
@@ -67,9 +63,10 @@ export async function GET(request: NextRequest) {
 
     // Transform data for frontend
     const transformedDocuments = documents.map((doc) => {
-      const conversationCount = doc._count.conversations;
-      const lastConversation = doc.conversations[0];
-      const lastMessage = lastConversation?.messages[0];
+      // Only threads with at least one exchange count as real conversations
+      const threads = doc.conversations.filter((conversation) => conversation._count.messages > 0);
+      const conversationCount = threads.length;
+      const lastMessageAt = threads[0]?.lastMessageAt || null;
 
       return {
         id: doc.id,
@@ -82,8 +79,11 @@ export async function GET(request: NextRequest) {
         mimeType: doc.mimeType,
         uploadedAt: doc.uploadedAt,
         lastAccessedAt: doc.lastAccessedAt,
+        processingStatus: doc.processingStatus,
+        processingError: doc.processingError,
+        processingProgress: doc.processingProgress,
         conversationCount,
-        lastMessageAt: lastMessage?.timestamp || null,
+        lastMessageAt,
         hasActiveConversation: conversationCount > 0,
       };
     });
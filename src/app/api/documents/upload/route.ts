@@ -1,12 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
-import { extractDocumentsWithLlamaParse } from '@/lib/llama-parse';
-import { uploadPDFToBlob, validatePDFFile, generateStorageFilename } from '@/lib/blob-storage';
+import { enqueueIngestion, runIngestionWorker } from '@/lib/ingestion';
+import { uploadPDFToBlob, deletePDFFromBlob, validatePDFFile, generateStorageFilename } from '@/lib/blob-storage';
 
 /**
- * Upload a PDF document using LlamaParse 
+ * Upload a PDF document and queue it for background processing
  * POST /api/documents/upload
  */
 export async function POST(request: NextRequest) {
@@ -61,41 +61,38 @@ export async function POST(request: NextRequest) {
     // Upload to Vercel Blob Storage first
     const uploadResult = await uploadPDFToBlob(file, storageFilename);
     
-    console.log('Processing file with LlamaParse...');
-    
-    const { langchainDocs, documents } = await extractDocumentsWithLlamaParse(file);
-    console.log(`Document processed successfully! Found ${langchainDocs.length} sections.`);
-    
-    // Split documents into chunks for vector storage
-    const { CharacterTextSplitter } = await import("langchain/text_splitter");
-    const textSplitter = new CharacterTextSplitter({
-      chunkSize: 1000,    
-      chunkOverlap: 200   
-    });
-    
-    const textChunks = await textSplitter.splitDocuments(langchainDocs);
-    console.log(`Created ${textChunks.length} text chunks for vector storage`);
-    
-    // Store in database with Blob storage URL and processed chunks
+    // Store the document record - parsing and embedding happen in the background
     console.log('Creating document record for user:', session.user.id);
-    const documentRecord = await prisma.document.create({
-      data: {
-        title: file.name.replace('.pdf', '').trim(),
-        filename: storageFilename,
-        originalName: file.name,
-        fileUrl: uploadResult.url,           // Vercel Blob storage URL
-        fileSize: uploadResult.size,
-        mimeType: file.type,
-        pageCount: documents.length,
-        textContent: langchainDocs.map(doc => doc.pageContent).join('\n'),
-        chunks: textChunks.map(chunk => ({
-          pageContent: chunk.pageContent,
-          metadata: chunk.metadata
-        })),                              // Text chunks ready for vector search
-        vectorStore: undefined,              // We'll recreate vector store when needed
-        uploadedAt: uploadResult.uploadedAt,
-        userId: user.id                      // Use verified user ID
-      }
+    let documentRecord;
+    try {
+      documentRecord = await prisma.document.create({
+        data: {
+          title: file.name.replace('.pdf', '').trim(),
+          filename: storageFilename,
+          originalName: file.name,
+          fileUrl: uploadResult.url,           // Vercel Blob storage URL
+          fileSize: uploadResult.size,
+          mimeType: file.type,
+          pageCount: 0,                        // Filled in once the PDF is parsed
+          processingStatus: 'QUEUED',
+          processingProgress: 0,
+          uploadedAt: uploadResult.uploadedAt,
+          userId: user.id                      // Use verified user ID
+        }
+      });
+    } catch (createError) {
+      // Don't leave an orphaned blob behind if the record can't be stored
+      await deletePDFFromBlob(uploadResult.url).catch(blobError => {
+        console.error('Error deleting orphaned blob:', blobError);
+      });
+      throw createError;
+    }
+
+    await enqueueIngestion(documentRecord.id);
+
+    // Start processing once the response has been sent
+    after(async () => {
+      await runIngestionWorker();
     });
 
     return NextResponse.json({ 
@@ -108,15 +105,16 @@ export async function POST(request: NextRequest) {
         fileUrl: documentRecord.fileUrl,
         fileSize: documentRecord.fileSize,
         pageCount: documentRecord.pageCount,
-        uploadedAt: documentRecord.uploadedAt
+        uploadedAt: documentRecord.uploadedAt,
+        processingStatus: 'QUEUED'
       },
-      message: `Document processed successfully! Found ${langchainDocs.length} sections.`
+      message: 'Document uploaded and queued for processing'
     }, { status: 201 }); // Return 201 Created as expected by frontend
     
   } catch (error) {
     console.error('Upload failed:', error);
     return NextResponse.json({ 
-      error: 'Upload failed - LlamaParse processing required', 
+      error: 'Upload failed', 
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runIngestionWorker } from '@/lib/ingestion';
+
+// Force Node.js runtime for MuPDF.js server-side usage
+export const runtime = 'nodejs';
+
+/**
+ * Work through due ingestion jobs, for a scheduler such as Vercel Cron
+ * Retries are queued with a delay, so without this they only run when a dashboard polls /status
+ * GET /api/ingestion/run with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: { code: 'UNAUTHORIZED', message: 'A valid cron secret is required' } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const processed = await runIngestionWorker();
+
+    return NextResponse.json(
+      { data: { processed } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error running ingestion worker:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to run ingestion worker' } },
+      { status: 500 }
+    );
+  }
+}
@@ -311,6 +311,7 @@ export default function DashboardPage() {
                   key={document.id}
                   document={document}
                   onDelete={handleDeleteDocument}
+                  onProcessed={() => refreshDocuments()}
                 />
               ))}
             </div>
@@ -1,15 +1,17 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import dynamic from "next/dynamic";
+import useSWR from "swr";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, FileText, MessageSquare } from "lucide-react";
+import { ArrowLeft, FileText, MessageSquare, PanelLeft } from "lucide-react";
 import SplitScreen from "@/components/layout/SplitScreen";
 import ChatInterface from "@/components/chat/ChatInterface";
-import type { Document, Annotation } from "@/types/pdf";
-import type { Message } from "@/types/chat";
+import ConversationList from "@/components/chat/ConversationList";
+import type { Document, Annotation, AnnotationChanges, AnnotationDraft, AnnotationsListResponse } from "@/types/pdf";
+import type { CitationMarker, Conversation, Message, PassageContext } from "@/types/chat";
 
 // Dynamic import to avoid SSR issues with DOMMatrix
 const PDFViewer = dynamic(() => import("@/components/pdf/PDFViewer"), {
@@ -26,6 +28,24 @@ interface DocumentResponse {
   data: Document;
 }
 
+// API response types for conversations
+interface ConversationsListResponse {
+  data: Conversation[];
+}
+
+interface ConversationResponse {
+  data: Conversation;
+}
+
+// API fetcher function
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to fetch conversations');
+  }
+  return response.json();
+};
+
 export default function TutorPage() {
   const params = useParams();
   const router = useRouter();
@@ -34,10 +54,72 @@ export default function TutorPage() {
   
   const [document, setDocument] = useState<Document | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
+  // Citation jumps scroll the viewer to the AI highlight on the page
+  const [focusHighlight, setFocusHighlight] = useState<{ pageNumber: number; annotationIds?: string[] } | null>(null);
+  const [conversationId, setConversationId] = useState<string | undefined>(undefined);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
+  const [selectedPassage, setSelectedPassage] = useState<PassageContext | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [showThreads, setShowThreads] = useState<boolean>(true);
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+
+  // Conversation threads for this document
+  const conversationsUrl = `/api/conversations?documentId=${documentId}${showArchived ? '&includeArchived=true' : ''}`;
+  const { data: conversationsResponse, mutate: refreshConversations } = useSWR<ConversationsListResponse>(
+    status === "authenticated" ? conversationsUrl : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+  const conversations = conversationsResponse?.data || [];
+
+  // AI highlights for this document's answers plus the user's own annotations
+  const { data: annotationsResponse, mutate: mutateAnnotations } = useSWR<AnnotationsListResponse>(
+    status === "authenticated" ? `/api/documents/${documentId}/annotations` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  // Show the selected answer's highlights, otherwise every highlight in the open thread
+  // The user's own and imported annotations are always shown
+  const annotations = useMemo<Annotation[]>(() => {
+    const storedAnnotations = annotationsResponse?.data || [];
+    const messageIds = selectedMessageId
+      ? new Set([selectedMessageId])
+      : new Set(messages.map(message => message.id));
+
+    return storedAnnotations.filter(annotation =>
+      annotation.source === 'USER' ||
+      annotation.source === 'IMPORTED' ||
+      annotation.messageIds?.some(messageId => messageIds.has(messageId))
+    );
+  }, [annotationsResponse, messages, selectedMessageId]);
+
+  // Load a thread's messages from the API
+  const selectConversation = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const { data: conversation }: ConversationResponse = await response.json();
+      setConversationId(conversation.id);
+      setSelectedMessageId(null);
+      // Convert timestamp strings back to Date objects
+      setMessages((conversation.messages || []).map(msg => ({
+        ...msg,
+        timestamp: new Date(msg.timestamp)
+      })));
+    } catch (conversationError) {
+      console.error("Failed to load conversation:", conversationError);
+    }
+  }, []);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -92,16 +174,18 @@ export default function TutorPage() {
           console.warn("Failed to update last accessed time:", updateError);
         }
         
-        // Load conversation history from localStorage (for now)
-        const savedMessages = localStorage.getItem(`conversation_${documentId}`);
-        if (savedMessages) {
-          const parsedMessages = JSON.parse(savedMessages);
-          // Convert timestamp strings back to Date objects
-          const messagesWithDates = parsedMessages.map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }));
-          setMessages(messagesWithDates);
+        // Resume the most recent conversation for this document
+        try {
+          const conversationsResponse = await fetch(`/api/conversations?documentId=${documentId}`);
+          if (conversationsResponse.ok) {
+            const { data: conversations }: ConversationsListResponse = await conversationsResponse.json();
+            if (conversations[0]) {
+              await selectConversation(conversations[0].id);
+            }
+          }
+        } catch (conversationError) {
+          // Non-critical error, the user can still start a new conversation
+          console.warn("Failed to load conversation history:", conversationError);
         }
         
         // Load last viewed page from localStorage
@@ -121,7 +205,7 @@ export default function TutorPage() {
     if (documentId) {
       loadDocument();
     }
-  }, [documentId, status, router]);
+  }, [documentId, status, router, selectConversation]);
 
   // Save current page when it changes
   useEffect(() => {
@@ -130,29 +214,214 @@ export default function TutorPage() {
     }
   }, [documentId, currentPage]);
 
-  // Save messages when they change
-  useEffect(() => {
-    if (documentId && messages.length > 0) {
-      localStorage.setItem(`conversation_${documentId}`, JSON.stringify(messages));
-    }
-  }, [documentId, messages]);
-
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
   };
 
   const handleSendMessage = (message: Message) => {
     setMessages(prev => [...prev, message]);
+
+    // Answers update the thread's title, count and timestamp
+    if (message.role === 'ASSISTANT') {
+      refreshConversations();
+      setSelectedMessageId(null);
+    }
   };
 
   const handlePageNavigation = (page: number) => {
     if (page >= 1 && page <= (document?.pageCount || 1)) {
       setCurrentPage(page);
+      setFocusHighlight({ pageNumber: page });
+    }
+  };
+
+  // Numbered citations point at their own highlights, not just a page
+  const handleCitationClick = (marker: CitationMarker) => {
+    // Show the whole thread again if another answer's highlights are filtered in
+    if (marker.annotationIds.some(id => !annotations.some(annotation => annotation.id === id))) {
+      setSelectedMessageId(null);
     }
+    setCurrentPage(marker.pageNumber);
+    setFocusHighlight({ pageNumber: marker.pageNumber, annotationIds: marker.annotationIds });
   };
 
+  // New highlights are already saved - add them to the cache without refetching
   const handleAddAnnotations = (newAnnotations: Annotation[]) => {
-    setAnnotations(prev => [...prev, ...newAnnotations]);
+    mutateAnnotations(
+      current => ({ data: [...(current?.data || []), ...newAnnotations] }),
+      { revalidate: false }
+    );
+  };
+
+  const handleCreateAnnotation = async (draft: AnnotationDraft): Promise<Annotation | null> => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/annotations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ annotations: [draft] }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const { data: [created] }: AnnotationsListResponse = await response.json();
+      handleAddAnnotations([created]);
+      return created;
+    } catch (createError) {
+      console.error("Failed to save annotation:", createError);
+      return null;
+    }
+  };
+
+  // Apply edits locally right away so dragging feels instant, then store them
+  const handleUpdateAnnotation = async (annotationId: string, changes: AnnotationChanges) => {
+    mutateAnnotations(
+      current => current && {
+        data: current.data.map(annotation =>
+          annotation.id === annotationId ? { ...annotation, ...changes } : annotation
+        )
+      },
+      { revalidate: false }
+    );
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/annotations/${annotationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (updateError) {
+      console.error("Failed to update annotation:", updateError);
+      mutateAnnotations();
+    }
+  };
+
+  const handleDeleteAnnotation = async (annotationId: string) => {
+    mutateAnnotations(
+      current => current && {
+        data: current.data.filter(annotation => annotation.id !== annotationId)
+      },
+      { revalidate: false }
+    );
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/annotations`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ annotationIds: [annotationId] }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (deleteError) {
+      console.error("Failed to delete annotation:", deleteError);
+      mutateAnnotations();
+    }
+  };
+
+  // Clicking an answer re-shows its highlights, clicking it again shows the whole thread
+  const handleSelectMessage = (messageId: string) => {
+    if (messageId === selectedMessageId) {
+      setSelectedMessageId(null);
+      return;
+    }
+
+    const messageAnnotations = (annotationsResponse?.data || []).filter(annotation =>
+      annotation.messageIds?.includes(messageId)
+    );
+    if (messageAnnotations.length === 0) {
+      return;
+    }
+
+    setSelectedMessageId(messageId);
+    const pages = messageAnnotations.map(annotation => annotation.pageNumber);
+    if (!pages.includes(currentPage)) {
+      setCurrentPage(Math.min(...pages));
+      setFocusHighlight({ pageNumber: Math.min(...pages) });
+    }
+  };
+
+  const handleConversationStart = (id: string) => {
+    setConversationId(id);
+    refreshConversations();
+  };
+
+  // Threads are created lazily with their first question
+  const handleNewConversation = () => {
+    setConversationId(undefined);
+    setMessages([]);
+    setSelectedMessageId(null);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    if (id !== conversationId) {
+      selectConversation(id);
+    }
+  };
+
+  const updateConversation = async (id: string, changes: { title?: string; archived?: boolean }) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      await refreshConversations();
+    } catch (updateError) {
+      console.error("Failed to update conversation:", updateError);
+    }
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    updateConversation(id, { title });
+  };
+
+  const handleArchiveConversation = async (id: string, archived: boolean) => {
+    await updateConversation(id, { archived });
+
+    // Move off a thread once it's archived
+    if (archived && id === conversationId) {
+      const nextConversation = conversations.find(c => c.id !== id && !c.archivedAt);
+      if (nextConversation) {
+        selectConversation(nextConversation.id);
+      } else {
+        handleNewConversation();
+      }
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      // The thread's highlights were deleted with it
+      await Promise.all([refreshConversations(), mutateAnnotations()]);
+
+      if (id === conversationId) {
+        const nextConversation = conversations.find(c => c.id !== id && !c.archivedAt);
+        if (nextConversation) {
+          selectConversation(nextConversation.id);
+        } else {
+          handleNewConversation();
+        }
+      }
+    } catch (deleteError) {
+      console.error("Failed to delete conversation:", deleteError);
+    }
   };
 
   // Show loading state while checking authentication or loading document
@@ -214,6 +483,14 @@ export default function TutorPage() {
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            <Button
+              variant={showThreads ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setShowThreads(prev => !prev)}
+            >
+              <PanelLeft className="mr-1 h-4 w-4" />
+              Threads
+            </Button>
             <div className="flex items-center space-x-1 text-sm text-gray-500">
               <FileText className="h-4 w-4" />
               <span>{document.pageCount} pages</span>
@@ -235,16 +512,48 @@ export default function TutorPage() {
               currentPage={currentPage}
               annotations={annotations}
               onPageChange={handlePageChange}
+              onCreateAnnotation={handleCreateAnnotation}
+              onUpdateAnnotation={handleUpdateAnnotation}
+              onDeleteAnnotation={handleDeleteAnnotation}
+              onAskAboutPassage={setSelectedPassage}
+              conversationId={conversationId}
+              focusHighlight={focusHighlight}
             />
           }
           rightPanel={
-            <ChatInterface
-              document={document}
-              messages={messages}
-              onSendMessage={handleSendMessage}
-              onPageNavigation={handlePageNavigation}
-              onAddAnnotations={handleAddAnnotations}
-            />
+            <div className="flex h-full">
+              {showThreads && (
+                <ConversationList
+                  className="w-60 flex-shrink-0 border-r border-gray-200"
+                  conversations={conversations}
+                  activeConversationId={conversationId}
+                  showArchived={showArchived}
+                  onSelect={handleSelectConversation}
+                  onNewConversation={handleNewConversation}
+                  onRename={handleRenameConversation}
+                  onArchive={handleArchiveConversation}
+                  onDelete={handleDeleteConversation}
+                  onToggleArchived={() => setShowArchived(prev => !prev)}
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <ChatInterface
+                  document={document}
+                  conversationId={conversationId}
+                  messages={messages}
+                  onSendMessage={handleSendMessage}
+                  onPageNavigation={handlePageNavigation}
+                  onCitationClick={handleCitationClick}
+                  onAddAnnotations={handleAddAnnotations}
+                  onConversationStart={handleConversationStart}
+                  selectedMessageId={selectedMessageId}
+                  onSelectMessage={handleSelectMessage}
+                  passage={selectedPassage}
+                  onClearPassage={() => setSelectedPassage(null)}
+                  currentPage={currentPage}
+                />
+              </div>
+            </div>
           }
         />
       </div>
@@ -14,55 +14,50 @@ import {
   Bot,
   User,
   Volume2,
-  VolumeX
+  VolumeX,
+  Quote,
+  X
 } from "lucide-react";
 import type { Document, Annotation } from "@/types/pdf";
-import type { Message } from "@/types/chat";
-import { generateHighlightAnnotations, injectPageCitations } from "@/lib/pdf-annotations";
+import type { ChatResponse, CitationMarker, Message, PassageContext, QuestionScope } from "@/types/chat";
+import { describeQuestionScope } from "@/lib/question-scope";
+import { buildCitationMarkers, generateHighlightAnnotations, saveMessageAnnotations } from "@/lib/pdf-annotations";
+import { readServerSentEvents } from "@/lib/chat-stream";
 import CitableMessage from "./CitableMessage";
 
-// Helper function for fallback annotations when MuPDF document not loaded
-const generateBasicAnnotationsFromSources = async (sources: string[], sourceDocuments: any[]): Promise<Annotation[]> => {
-  const annotations: Annotation[] = [];
-  
-  // Extract page information from sourceDocuments (like Python version)
-  sourceDocuments.forEach((doc, index) => {
-    if (doc.metadata?.page) {
-      annotations.push({
-        id: `ann_${Date.now()}_${index}`,
-        type: "HIGHLIGHT" as const,
-        pageNumber: doc.metadata.page,
-        coordinates: { 
-          x: 50 + (index * 10), 
-          y: 150 + (index * 80), 
-          width: 400, 
-          height: 60 
-        },
-        color: "red",
-        opacity: 0.15, 
-        createdAt: new Date(),
-        documentId: "current_doc"
-      });
-    }
-  });
-  
-  return annotations;
-};
-
 interface ChatInterfaceProps {
   document: Document;
+  conversationId?: string;
   messages: Message[];
   onSendMessage: (message: Message) => void;
   onPageNavigation: (page: number) => void;
+  // Called when a numbered citation in an answer is clicked
+  onCitationClick?: (marker: CitationMarker) => void;
   onAddAnnotations: (annotations: Annotation[]) => void;
+  onConversationStart?: (conversationId: string) => void;
+  selectedMessageId?: string | null;
+  onSelectMessage?: (messageId: string) => void;
+  // Passage selected in the viewer that the next question is about
+  passage?: PassageContext | null;
+  onClearPassage?: () => void;
+  // Page open in the viewer, what "This page" scopes questions to
+  currentPage?: number;
 }
 
 export default function ChatInterface({
   document,
+  conversationId,
   messages,
   onSendMessage,
   onPageNavigation,
-  onAddAnnotations
+  onCitationClick,
+  onAddAnnotations,
+  onConversationStart,
+  selectedMessageId,
+  onSelectMessage,
+  passage,
+  onClearPassage,
+  currentPage
 }: ChatInterfaceProps) {
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -72,9 +67,18 @@ export default function ChatInterface({
   const [interimTranscript, setInterimTranscript] = useState("");
   const [isVoiceProcessing, setIsVoiceProcessing] = useState(false);
   const [currentSources, setCurrentSources] = useState<string[]>([]); // Store current AI sources
+  const [streamingContent, setStreamingContent] = useState<string | null>(null); // Partial answer while streaming
+  const [scopeMode, setScopeMode] = useState<'document' | 'page'>('document'); // What questions are answered from
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const recognition = useRef<any>(null);
 
+  // Suggest a question when a passage is sent over from the viewer
+  useEffect(() => {
+    if (passage) {
+      setInputValue(prev => prev.trim() ? prev : "Explain this passage");
+    }
+  }, [passage]);
+
   // Initialize speech recognition
   useEffect(() => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
@@ -125,7 +129,7 @@ export default function ChatInterface({
   }, []);
 
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive or the answer grows
   useEffect(() => {
     if (scrollAreaRef.current) {
       const scrollContainer = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
@@ -133,22 +137,30 @@ export default function ChatInterface({
         scrollContainer.scrollTop = scrollContainer.scrollHeight;
       }
     }
-  }, [messages]);
+  }, [messages, streamingContent]);
 
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isLoading) return;
 
+    // Without a chosen scope the server still picks up phrases like "on page 12"
+    const scope: QuestionScope | undefined = scopeMode === 'page' && currentPage
+      ? { pageRange: { start: currentPage, end: currentPage } }
+      : undefined;
+
     const userMessage: Message = {
       id: `msg_${Date.now()}`,
       content: inputValue,
       role: 'USER',
       timestamp: new Date(),
-      conversationId: `conv_${document.id}`
+      conversationId: conversationId || '',
+      ...(passage && { metadata: { passage } })
     };
 
     onSendMessage(userMessage);
     const currentInput = inputValue;
+    const currentPassage = passage;
     setInputValue("");
+    onClearPassage?.();
     setIsLoading(true);
 
     // Call real AI API 
@@ -160,7 +172,11 @@ export default function ChatInterface({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           message: currentInput, 
-          documentId: document.id 
+          documentId: document.id,
+          conversationId,
+          passage: currentPassage || undefined,
+          scope,
+          stream: true
         })
       });
 
@@ -169,12 +185,36 @@ export default function ChatInterface({
         throw new Error(errorData.error || `HTTP ${response.status}`);
       }
 
-      const result = await response.json();
+      // Render answer tokens as they arrive, the final event carries sources
+      // Cast, as the assignment in the callback is invisible to narrowing
+      let result = null as ChatResponse | null;
+      setStreamingContent('');
+      await readServerSentEvents(response, (event) => {
+        if (event.event === 'token') {
+          setStreamingContent(prev => (prev || '') + event.data.text);
+        } else if (event.event === 'reset') {
+          setStreamingContent('');
+        } else if (event.event === 'done') {
+          result = event.data;
+        } else if (event.event === 'error') {
+          throw new Error(event.data.details || event.data.error);
+        }
+      });
+
+      if (!result) {
+        throw new Error('The answer stream ended unexpectedly');
+      }
       console.log('AI response received:', result);
 
+      // First message of a new thread - the server created the conversation
+      if (result.conversationId && result.conversationId !== conversationId) {
+        onConversationStart?.(result.conversationId);
+      }
+
       // Store sources and generate annotations FIRST 
-      let finalAiResponse = result.answer;
+      const finalAiResponse = result.answer;
       let finalPageMappings: Array<{excerpt: string, pages: number[]}> = [];
+      let finalCitationMarkers: CitationMarker[] = [];
       
       if (result.sources && result.sources.length > 0) {
         // Update session state with new sources for highlighting 
@@ -187,15 +227,12 @@ export default function ChatInterface({
         const highlightResult = await generateHighlightAnnotations(document.id, result.sources);
         
         if (highlightResult.annotations.length > 0) {
-          onAddAnnotations(highlightResult.annotations);
-          
-          // Inject clickable page citations into AI response BEFORE sending message
-          finalAiResponse = injectPageCitations(
-            result.answer,
-            result.sources,
-            highlightResult.pageMappings
-          );
+          // Persist the highlights so reopening the thread can show them again
+          const savedAnnotations = await saveMessageAnnotations(document.id, result.messageId, highlightResult.annotations);
+          onAddAnnotations(savedAnnotations);
           
+          // Bind the answer's [n] markers to the highlights of the quotes they cite
+          finalCitationMarkers = buildCitationMarkers(result.citations || [], highlightResult.annotations, savedAnnotations);
           finalPageMappings = highlightResult.pageMappings;
           
           // Navigate to first highlighted page
@@ -205,27 +242,46 @@ export default function ChatInterface({
           console.log(`Generated ${highlightResult.annotations.length} highlights with interactive citations, navigating to page ${firstPage}`);
         } else {
           console.log('No text matches found for highlighting');
-          // Fallback to basic annotations from sourceDocuments if no text search results
-          const fallbackAnnotations = await generateBasicAnnotationsFromSources(result.sources, result.sourceDocuments);
-          onAddAnnotations(fallbackAnnotations);
-          
-          if (fallbackAnnotations.length > 0) {
-            onPageNavigation(fallbackAnnotations[0].pageNumber);
+          // Nothing to highlight, so open the page the model cited rather than drawing made-up boxes
+          if (result.citations?.length > 0) {
+            onPageNavigation(result.citations[0].page);
           }
+
+          // Markers without highlights still open the page the quote is on
+          finalCitationMarkers = buildCitationMarkers(result.citations || [], [], []);
+        }
+      }
+
+      // Store the citation markers so reloaded threads keep their highlight links
+      if (finalCitationMarkers.length > 0) {
+        try {
+          await fetch(`/api/conversations/${result.conversationId}/messages/${result.messageId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              metadata: { pageMappings: finalPageMappings, citationMarkers: finalCitationMarkers }
+            })
+          });
+        } catch (updateError) {
+          // Non-critical error, the answer is already stored without citations
+          console.warn('Failed to store message citations:', updateError);
         }
       }
 
       // Create AI message with final response
       const aiMessage: Message = {
-        id: `msg_${Date.now()}`,
+        id: result.messageId || `msg_${Date.now()}`,
         content: finalAiResponse,
         role: 'ASSISTANT',
         timestamp: new Date(),
-        conversationId: `conv_${document.id}`,
+        conversationId: result.conversationId,
         metadata: {
           sources: result.sources,
           sourceDocuments: result.sourceDocuments,
-          pageMappings: finalPageMappings
+          pageMappings: finalPageMappings,
+          citationMarkers: finalCitationMarkers,
+          // The scope the server actually searched, null when it fell back to the whole document
+          ...(result.scope && { scope: result.scope })
         }
       };
 
@@ -246,11 +302,12 @@ export default function ChatInterface({
         content: `I'm sorry, I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
         role: 'ASSISTANT',
         timestamp: new Date(),
-        conversationId: `conv_${document.id}`
+        conversationId: conversationId || ''
       };
 
       onSendMessage(errorMessage);
     } finally {
+      setStreamingContent(null);
       setIsLoading(false);
     }
   };
@@ -377,24 +434,45 @@ export default function ChatInterface({
                       {formatTime(message.timestamp)}
                     </span>
                   </div>
-                  <div className={`p-3 rounded-lg ${
-                    message.role === 'USER' 
-                      ? 'bg-blue-600 text-white' 
-                      : 'bg-gray-100 text-gray-900'
-                  }`}>
+                  <div
+                    className={`p-3 rounded-lg ${
+                      message.role === 'USER' 
+                        ? 'bg-blue-600 text-white' 
+                        : 'bg-gray-100 text-gray-900'
+                    } ${message.role === 'ASSISTANT' && onSelectMessage ? 'cursor-pointer hover:bg-gray-200' : ''} ${
+                      message.id === selectedMessageId ? 'ring-2 ring-blue-300' : ''
+                    }`}
+                    onClick={(e) => {
+                      // Citation buttons navigate on their own
+                      if (message.role !== 'ASSISTANT' || (e.target as HTMLElement).closest('button')) return;
+                      onSelectMessage?.(message.id);
+                    }}
+                    title={message.role === 'ASSISTANT' && onSelectMessage ? 'Show the highlights for this answer' : undefined}
+                  >
+                    {message.metadata?.passage && (
+                      <blockquote className="mb-2 border-l-2 border-blue-300 pl-2 text-xs italic opacity-90">
+                        "{message.metadata.passage.text}" (p. {message.metadata.passage.pageNumber})
+                      </blockquote>
+                    )}
+                    {message.role === 'ASSISTANT' && message.metadata?.scope && (
+                      <p className="mb-1 text-xs text-gray-500">
+                        Answered from {describeQuestionScope(message.metadata.scope)}
+                      </p>
+                    )}
                     {message.role === 'ASSISTANT' && message.metadata?.pageMappings ? (
                       <CitableMessage 
                         content={message.content}
-                        pageMappings={message.metadata.pageMappings}
+                        citationMarkers={message.metadata.citationMarkers}
                         onPageNavigation={onPageNavigation}
+                        onCitationClick={onCitationClick}
                       />
                     ) : (
                       <p className="text-sm leading-relaxed">{message.content}</p>
                     )}
-                    {message.metadata?.pageMappings && message.metadata.pageMappings.length > 0 && (
+                    {message.metadata?.citationMarkers && message.metadata.citationMarkers.length > 0 && (
                       <div className="mt-2 pt-2 border-t border-gray-200">
                         <p className="text-xs text-gray-500">
-                          📄 Interactive citations • Click page numbers to navigate
+                          📄 Interactive citations • Click a citation to see its highlight
                         </p>
                       </div>
                     )}
@@ -411,8 +489,27 @@ export default function ChatInterface({
             ))
           )}
           
+          {/* Streaming answer */}
+          {isLoading && streamingContent && (
+            <div className="flex justify-start">
+              <div className="max-w-[80%]">
+                <div className="flex items-center gap-2 mb-1">
+                  <Bot className="h-4 w-4 text-green-600" />
+                  <span className="text-xs text-gray-500">AI Tutor</span>
+                  <Clock className="h-3 w-3 text-gray-400" />
+                </div>
+                <div className="p-3 rounded-lg bg-gray-100 text-gray-900">
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                    {streamingContent}
+                    <span className="inline-block w-1.5 h-4 ml-0.5 bg-gray-400 animate-pulse align-text-bottom"></span>
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Typing Indicator */}
-          {isLoading && (
+          {isLoading && !streamingContent && (
             <div className="flex justify-start">
               <div className="max-w-[80%]">
                 <div className="flex items-center gap-2 mb-1">
@@ -440,6 +537,44 @@ export default function ChatInterface({
 
       {/* Message Input */}
       <div className="p-4 flex-shrink-0">
+        {passage && (
+          <div className="mb-2 flex items-start space-x-2 rounded-md border border-blue-200 bg-blue-50 p-2">
+            <Quote className="h-4 w-4 flex-shrink-0 text-blue-500 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-blue-700">From page {passage.pageNumber}</p>
+              <p className="text-xs text-gray-700 line-clamp-2">{passage.text}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={onClearPassage}
+              title="Ask about the whole document instead"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        <div className="mb-2 flex items-center space-x-1">
+          <span className="mr-1 text-xs text-gray-500">Answer from</span>
+          <Button
+            variant={scopeMode === 'document' ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => setScopeMode('document')}
+          >
+            Whole document
+          </Button>
+          <Button
+            variant={scopeMode === 'page' ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => setScopeMode('page')}
+            disabled={!currentPage}
+          >
+            This page{currentPage ? ` (p. ${currentPage})` : ''}
+          </Button>
+        </div>
         <div className="flex items-center space-x-2">
           <div className="flex-1 relative">
             <Input
@@ -1,66 +1,132 @@
 "use client";
 
 import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CitationMarker } from '@/types/chat';
 
 interface CitableMessageProps {
   content: string;
-  pageMappings?: Array<{excerpt: string, pages: number[]}>;
+  citationMarkers?: CitationMarker[];
   onPageNavigation: (page: number) => void;
+  onCitationClick?: (marker: CitationMarker) => void;
 }
 
-export default function CitableMessage({ 
-  content, 
-  pageMappings = [], 
-  onPageNavigation 
+// [1] or [2, 3] written by the model, and "(page 4)" from answers stored before markers existed
+const CITATION_REGEX = /\[(\d+(?:\s*,\s*\d+)*)\]|\((pages?\s+[\d,\s]+)\)/g;
+
+/**
+ * One numbered citation, showing its quote on hover
+ * Quotes that weren't found in the document have nothing to jump to
+ */
+function CitationButton({
+  marker,
+  onClick
+}: {
+  marker: CitationMarker;
+  onClick: (marker: CitationMarker) => void;
+}) {
+  const isSupported = marker.supported !== false;
+
+  return (
+    <span className="group relative inline-block">
+      <button
+        type="button"
+        className={cn(
+          "mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded px-1 align-super text-[10px] font-medium",
+          isSupported
+            ? "bg-blue-100 text-blue-700 hover:bg-blue-600 hover:text-white"
+            : "cursor-help bg-amber-100 text-amber-700 line-through"
+        )}
+        onClick={() => isSupported && onClick(marker)}
+        aria-label={isSupported
+          ? `Citation ${marker.number}, page ${marker.pageNumber}`
+          : `Citation ${marker.number}, source not found in document`}
+      >
+        {marker.number}
+      </button>
+      <span className="pointer-events-none invisible absolute bottom-full left-1/2 z-20 mb-1 w-64 -translate-x-1/2 rounded-md border border-gray-200 bg-white p-2 text-xs text-gray-700 shadow-lg group-hover:visible">
+        <span className="block italic">"{marker.quote}"</span>
+        {isSupported ? (
+          <span className="mt-1 block text-gray-400">Page {marker.pageNumber}</span>
+        ) : (
+          <span className="mt-1 block text-amber-700">Source not found in document</span>
+        )}
+      </span>
+    </span>
+  );
+}
+
+export default function CitableMessage({
+  content,
+  citationMarkers = [],
+  onPageNavigation,
+  onCitationClick
 }: CitableMessageProps) {
-  
-  // Parse content and make page references clickable
+  const markersByNumber = new Map(citationMarkers.map(marker => [marker.number, marker]));
+  const citedNumbers = new Set<number>();
+
+  // Markers without highlights can still open their page
+  const handleCitationClick = (marker: CitationMarker) => {
+    if (onCitationClick) {
+      onCitationClick(marker);
+    } else {
+      onPageNavigation(marker.pageNumber);
+    }
+  };
+
+  // Parse content and make citations clickable
   const renderContentWithCitations = (text: string) => {
-    // Regex to find page citations 
-    const citationRegex = /\((pages?\s+[\d,\s]+)\)/g;
-    
     const parts = [];
     let lastIndex = 0;
     let match;
-    
-    while ((match = citationRegex.exec(text)) !== null) {
+
+    CITATION_REGEX.lastIndex = 0;
+    while ((match = CITATION_REGEX.exec(text)) !== null) {
+      const [citation, markerNumbers, pageCitation] = match;
+
+      // Numbers that don't match a source are left as plain text
+      const markers = markerNumbers
+        ? markerNumbers.split(',').map(n => markersByNumber.get(parseInt(n.trim())))
+        : [];
+      if (markerNumbers && markers.some(marker => !marker)) {
+        continue;
+      }
+
       // Add text before the citation
       if (match.index > lastIndex) {
         parts.push(text.substring(lastIndex, match.index));
       }
-      
-      // Extract page numbers from the citation
-      const citationText = match[1];
-      const pageNumbers = citationText
-        .replace(/pages?/g, '')
-        .split(',')
-        .map(p => parseInt(p.trim()))
-        .filter(p => !isNaN(p));
-      
-      // Create clickable citation
-      if (pageNumbers.length === 1) {
+
+      if (markerNumbers) {
         parts.push(
-          <span
-            key={match.index}
-            className="inline-flex items-center cursor-pointer text-blue-600 hover:text-blue-800 hover:underline"
-            onClick={() => onPageNavigation(pageNumbers[0])}
-          >
-            ({citationText})
+          <span key={match.index} className="whitespace-nowrap">
+            {markers.map(marker => {
+              citedNumbers.add(marker!.number);
+              return <CitationButton key={marker!.number} marker={marker!} onClick={handleCitationClick} />;
+            })}
           </span>
         );
       } else {
-        // Multiple pages - create separate clickable links
+        // Extract page numbers from the legacy citation
+        const pageNumbers = pageCitation
+          .replace(/pages?/g, '')
+          .split(',')
+          .map(p => parseInt(p.trim()))
+          .filter(p => !isNaN(p));
+
         parts.push(
           <span key={match.index} className="inline-flex items-center">
-            (pages{' '}
+            ({pageNumbers.length === 1 ? 'page' : 'pages'}{' '}
             {pageNumbers.map((page, index) => (
               <React.Fragment key={page}>
-                <span
-                  className="cursor-pointer text-blue-600 hover:text-blue-800 hover:underline"
+                <button
+                  type="button"
+                  className="text-blue-600 hover:text-blue-800 hover:underline"
                   onClick={() => onPageNavigation(page)}
                 >
                   {page}
-                </span>
+                </button>
                 {index < pageNumbers.length - 1 && ', '}
               </React.Fragment>
             ))}
@@ -68,21 +134,44 @@ export default function CitableMessage({
           </span>
         );
       }
-      
-      lastIndex = match.index + match[0].length;
+
+      lastIndex = match.index + citation.length;
     }
-    
+
     // Add remaining text after last citation
     if (lastIndex < text.length) {
       parts.push(text.substring(lastIndex));
     }
-    
+
     return parts.length > 0 ? parts : [text];
   };
 
+  const renderedContent = renderContentWithCitations(content);
+  // Sources the answer never pointed at inline are still worth reaching
+  const uncitedMarkers = citationMarkers.filter(marker => !citedNumbers.has(marker.number));
+  const unsupportedMarkers = citationMarkers.filter(marker => marker.supported === false);
+
   return (
     <div className="text-sm leading-relaxed">
-      {renderContentWithCitations(content)}
+      {renderedContent}
+      {uncitedMarkers.length > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+          Sources:
+          {uncitedMarkers.map(marker => (
+            <CitationButton key={marker.number} marker={marker} onClick={handleCitationClick} />
+          ))}
+        </div>
+      )}
+      {unsupportedMarkers.length > 0 && (
+        <div className="mt-2 flex items-start gap-1 rounded border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-800">
+          <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+          <span>
+            {unsupportedMarkers.length === 1 ? 'Source' : 'Sources'}{' '}
+            {unsupportedMarkers.map(marker => `[${marker.number}]`).join(', ')}{' '}
+            not found in document - check {unsupportedMarkers.length === 1 ? 'it' : 'them'} before relying on this answer.
+          </span>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Plus,
+  MessageSquare,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  Check,
+  X
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Conversation } from "@/types/chat";
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId?: string;
+  showArchived: boolean;
+  onSelect: (conversationId: string) => void;
+  onNewConversation: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onArchive: (conversationId: string, archived: boolean) => void;
+  onDelete: (conversationId: string) => void;
+  onToggleArchived: () => void;
+  className?: string;
+}
+
+export default function ConversationList({
+  conversations,
+  activeConversationId,
+  showArchived,
+  onSelect,
+  onNewConversation,
+  onRename,
+  onArchive,
+  onDelete,
+  onToggleArchived,
+  className
+}: ConversationListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const formatRelativeTime = (date: Date | string) => {
+    const dateObj = date instanceof Date ? date : new Date(date);
+
+    if (isNaN(dateObj.getTime())) {
+      return "";
+    }
+
+    const diffInSeconds = Math.floor((Date.now() - dateObj.getTime()) / 1000);
+
+    if (diffInSeconds < 60) return "Just now";
+    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+    if (diffInSeconds < 604800) return `${Math.floor(diffInSeconds / 86400)}d ago`;
+
+    return dateObj.toLocaleDateString();
+  };
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title || "");
+  };
+
+  const commitEditing = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEditing();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className={cn("flex flex-col h-full bg-gray-50", className)}>
+      {/* Header */}
+      <div className="p-3 border-b border-gray-200 flex-shrink-0 space-y-2">
+        <Button size="sm" className="w-full" onClick={onNewConversation}>
+          <Plus className="mr-2 h-4 w-4" />
+          New conversation
+        </Button>
+        <button
+          onClick={onToggleArchived}
+          className="w-full text-xs text-gray-500 hover:text-gray-700"
+        >
+          {showArchived ? "Hide archived" : "Show archived"}
+        </button>
+      </div>
+
+      {/* Threads */}
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2 space-y-1">
+          {/* Unsaved thread - created on the server with its first question */}
+          {!activeConversationId && (
+            <div className="px-3 py-2 rounded-md bg-white border border-blue-200 text-sm text-gray-700">
+              New conversation
+            </div>
+          )}
+
+          {conversations.length === 0 && (
+            <p className="px-3 py-4 text-xs text-gray-500 text-center">
+              Ask a question to start your first conversation.
+            </p>
+          )}
+
+          {conversations.map((conversation) => {
+            const isActive = conversation.id === activeConversationId;
+            const isArchived = !!conversation.archivedAt;
+
+            return (
+              <div
+                key={conversation.id}
+                onClick={() => editingId !== conversation.id && deletingId !== conversation.id && onSelect(conversation.id)}
+                className={cn(
+                  "group px-3 py-2 rounded-md cursor-pointer transition-colors",
+                  isActive
+                    ? "bg-white border border-blue-200 shadow-sm"
+                    : "hover:bg-white border border-transparent",
+                  isArchived && "opacity-60"
+                )}
+              >
+                {editingId === conversation.id ? (
+                  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <Input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={handleEditKeyDown}
+                      className="h-7 text-sm"
+                    />
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={commitEditing}>
+                      <Check className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingId(null)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ) : deletingId === conversation.id ? (
+                  // Deleting removes the thread's messages and highlights for good, so ask first
+                  <div className="flex items-center justify-between gap-1" onClick={(e) => e.stopPropagation()}>
+                    <p className="text-sm text-red-700 truncate">Delete this conversation?</p>
+                    <div className="flex items-center flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-red-600"
+                        title="Delete"
+                        onClick={() => {
+                          setDeletingId(null);
+                          onDelete(conversation.id);
+                        }}
+                      >
+                        <Check className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Cancel" onClick={() => setDeletingId(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-start justify-between gap-1">
+                      <p className="text-sm font-medium text-gray-900 truncate" title={conversation.title || undefined}>
+                        {conversation.title || "Untitled conversation"}
+                      </p>
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                        <button
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title="Rename"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startEditing(conversation);
+                          }}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                        <button
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title={isArchived ? "Restore" : "Archive"}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onArchive(conversation.id, !isArchived);
+                          }}
+                        >
+                          {isArchived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                        </button>
+                        <button
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingId(null);
+                            setDeletingId(conversation.id);
+                          }}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                      <MessageSquare className="h-3 w-3" />
+                      <span>{conversation.messageCount || 0}</span>
+                      <span>•</span>
+                      <span>{formatRelativeTime(conversation.lastMessageAt)}</span>
+                      {isArchived && <span>• Archived</span>}
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,18 +1,91 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
+import useSWR from "swr";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { FileText, MessageSquare, Clock, BookOpen, Trash2 } from "lucide-react";
-import { Document } from "@/types/pdf";
+import { Progress } from "@/components/ui/progress";
+import { FileText, MessageSquare, Clock, BookOpen, Trash2, Loader2, AlertCircle, RefreshCw } from "lucide-react";
+import { Document, DocumentStatusResponse, ProcessingStatus } from "@/types/pdf";
 
 interface DocumentCardProps {
   document: Document;
   onDelete?: (documentId: string) => void;
+  onProcessed?: (documentId: string) => void;
 }
 
-export default function DocumentCard({ document, onDelete }: DocumentCardProps) {
+// Status fetcher for processing documents
+const statusFetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to fetch document status');
+  }
+  return response.json();
+};
+
+const PROCESSING_LABELS: Record<Exclude<ProcessingStatus, 'READY'>, string> = {
+  QUEUED: "Queued",
+  PARSING: "Parsing",
+  EMBEDDING: "Indexing",
+  FAILED: "Failed",
+};
+
+const isInProgress = (status: ProcessingStatus) => status !== "READY" && status !== "FAILED";
+
+export default function DocumentCard({ document, onDelete, onProcessed }: DocumentCardProps) {
+  const [isRetrying, setIsRetrying] = useState(false);
+  const initialStatus = document.processingStatus || "READY";
+
+  // Poll the status endpoint until processing finishes
+  const { data: statusResponse, mutate: refreshStatus } = useSWR<DocumentStatusResponse>(
+    initialStatus !== "READY" ? `/api/documents/${document.id}/status` : null,
+    statusFetcher,
+    {
+      refreshInterval: (latest) => {
+        const status = latest?.data.processingStatus || initialStatus;
+        return isInProgress(status) ? 2000 : 0;
+      },
+    }
+  );
+
+  const processingStatus = statusResponse?.data.processingStatus || initialStatus;
+  const processingProgress = statusResponse?.data.processingProgress ?? document.processingProgress ?? 0;
+  const processingError = statusResponse?.data.processingError ?? document.processingError;
+  const isReady = processingStatus === "READY";
+
+  // Parents tend to pass an inline callback, which mustn't re-run the effect below
+  const onProcessedRef = useRef(onProcessed);
+  const hasNotifiedRef = useRef(false);
+  useEffect(() => {
+    onProcessedRef.current = onProcessed;
+  }, [onProcessed]);
+
+  // Let the dashboard refresh page counts once the document is ready, once per processing run
+  useEffect(() => {
+    if (isInProgress(processingStatus)) {
+      hasNotifiedRef.current = false;
+    } else if (initialStatus !== "READY" && processingStatus === "READY" && !hasNotifiedRef.current) {
+      hasNotifiedRef.current = true;
+      onProcessedRef.current?.(document.id);
+    }
+  }, [initialStatus, processingStatus, document.id]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/retry`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to retry processing');
+      }
+      await refreshStatus();
+    } catch (error) {
+      console.error('Error retrying document processing:', error);
+    } finally {
+      setIsRetrying(false);
+    }
+  };
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -60,15 +133,27 @@ export default function DocumentCard({ document, onDelete }: DocumentCardProps)
           <div className="flex-1 min-w-0 pr-2">
             <div className="flex items-center gap-2 mb-2">
               <FileText className="h-5 w-5 text-red-500 flex-shrink-0" />
-              <Badge variant="secondary" className={status.color}>
-                {status.text}
-              </Badge>
+              {isReady ? (
+                <Badge variant="secondary" className={status.color}>
+                  {status.text}
+                </Badge>
+              ) : processingStatus === "FAILED" ? (
+                <Badge variant="secondary" className="bg-red-100 text-red-800">
+                  <AlertCircle />
+                  {PROCESSING_LABELS.FAILED}
+                </Badge>
+              ) : (
+                <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                  <Loader2 className="animate-spin" />
+                  {PROCESSING_LABELS[processingStatus]}
+                </Badge>
+              )}
             </div>
             <CardTitle className="text-lg leading-tight truncate max-w-full" title={document.title}>
               {document.title.length > 30 ? `${document.title.substring(0, 30)}...` : document.title}
             </CardTitle>
             <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
-              <span>{document.pageCount} pages</span>
+              {isReady && <span>{document.pageCount} pages</span>}
               <span>{formatFileSize(document.fileSize)}</span>
             </div>
           </div>
@@ -88,6 +173,23 @@ export default function DocumentCard({ document, onDelete }: DocumentCardProps)
       </CardHeader>
       
       <CardContent className="space-y-4">
+        {/* Processing Status */}
+        {isInProgress(processingStatus) && (
+          <div className="space-y-1">
+            <Progress value={processingProgress} />
+            <p className="text-xs text-gray-500">Preparing your document for AI tutoring...</p>
+          </div>
+        )}
+        {processingStatus === "FAILED" && (
+          <div className="space-y-2">
+            <p className="text-xs text-red-600">{processingError || "Processing failed"}</p>
+            <Button variant="outline" size="sm" onClick={handleRetry} disabled={isRetrying}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isRetrying ? "animate-spin" : ""}`} />
+              Retry processing
+            </Button>
+          </div>
+        )}
+
         {/* Conversation Status */}
         {(document.conversationCount || 0) > 0 && (
           <div className="space-y-2">
@@ -119,7 +221,12 @@ export default function DocumentCard({ document, onDelete }: DocumentCardProps)
 
         {/* Action Buttons */}
         <div className="flex gap-2 pt-2">
-          {document.hasActiveConversation ? (
+          {!isReady ? (
+            <Button className="w-full" disabled>
+              <BookOpen className="mr-2 h-4 w-4" />
+              {processingStatus === "FAILED" ? "Processing failed" : "Processing..."}
+            </Button>
+          ) : document.hasActiveConversation ? (
             <Link href={`/tutor/${document.id}`} className="flex-1">
               <Button className="w-full">
                 <MessageSquare className="mr-2 h-4 w-4" />
@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronUp, Loader2, X } from "lucide-react";
+
+interface FindBarProps {
+  query: string;
+  matchCount: number;
+  // Index of the match shown, -1 before there are any
+  activeIndex: number;
+  isSearching: boolean;
+  truncated: boolean;
+  // Changes every time Ctrl+F is pressed, to focus the input again
+  focusRequest: number;
+  onQueryChange: (query: string) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+export default function FindBar({
+  query,
+  matchCount,
+  activeIndex,
+  isSearching,
+  truncated,
+  focusRequest,
+  onQueryChange,
+  onNext,
+  onPrevious,
+  onClose
+}: FindBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    } else if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  let status: string | null = null;
+  if (query.trim() && !isSearching) {
+    status = matchCount > 0 ? `${activeIndex + 1} of ${matchCount}${truncated ? '+' : ''}` : 'No matches';
+  }
+
+  return (
+    <div className="absolute right-4 top-2 z-20 flex items-center space-x-1 rounded-md border border-gray-200 bg-white p-1 shadow-lg">
+      <Input
+        ref={inputRef}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        className="h-8 w-48 text-sm"
+      />
+      <span className="min-w-[4.5rem] px-1 text-center text-xs text-gray-500">
+        {isSearching ? <Loader2 className="mx-auto h-4 w-4 animate-spin" /> : status}
+      </span>
+      <Button variant="ghost" size="sm" title="Previous match (Shift+Enter)" onClick={onPrevious} disabled={matchCount === 0}>
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" title="Next match (Enter)" onClick={onNext} disabled={matchCount === 0}>
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" title="Close (Esc)" onClick={onClose}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -1,24 +1,222 @@
 "use client";
 
-import { useEffect, useRef } from "react";
-import type { Annotation } from "@/types/pdf";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  getPageQuads,
+  getQuadBounds,
+  hasUserSpaceQuads,
+  invertMatrix,
+  toHighlightCoordinates,
+  transformPoint,
+  type Matrix
+} from "@/lib/page-geometry";
+import type { Annotation, AnnotationChanges, AnnotationDraft } from "@/types/pdf";
+
+// Drawing tools offered by the viewer toolbar - SELECT moves and resizes existing annotations
+export type AnnotationTool = 'SELECT' | Annotation['type'];
+
+export interface AnnotationStyle {
+  color: string;
+  opacity: number;
+}
 
 interface PDFAnnotationsProps {
   annotations: Annotation[];
   pageNumber: number;
+  // Page size at 100% with no extra rotation - annotations are drawn in this page space
   pdfDimensions: { width: number; height: number };
-  scale: number;
+  // Page space to the rendered page, covering zoom and rotation
+  viewMatrix: Matrix;
+  // User space to page space, for highlights stored as PDF quads
+  userToPage?: Matrix;
   onAnnotationClick?: (annotation: Annotation) => void;
+  // Drawing - leave activeTool unset for a read-only overlay
+  activeTool?: AnnotationTool | null;
+  drawStyle?: AnnotationStyle;
+  selectedAnnotationId?: string | null;
+  onSelectAnnotation?: (annotation: Annotation | null) => void;
+  onCreateAnnotation?: (annotation: AnnotationDraft) => void;
+  onUpdateAnnotation?: (annotationId: string, changes: AnnotationChanges) => void;
+  // Highlights a citation points at - a new object pulses them again
+  pulseRequest?: { annotationIds: string[] } | null;
+}
+
+type Point = { x: number; y: number };
+type Coordinates = Annotation['coordinates'];
+type Bounds = { x: number; y: number; width: number; height: number };
+
+// AI highlights always use this color so they can't be confused with the user's own
+const AI_ANNOTATION_COLOR = '#ff0000';
+const NOTE_SIZE = 20;
+const HANDLE_SIZE = 8;
+// Drags shorter than this are treated as clicks
+const MIN_DRAG_DISTANCE = 4;
+// A citation pulse is two rings, each growing and fading out
+const PULSE_DURATION_MS = 600;
+const PULSE_COUNT = 2;
+
+interface DragState {
+  mode: 'draw' | 'move' | 'resize';
+  start: Point;
+  annotation?: Annotation;
+}
+
+/**
+ * Box around an annotation, used for hit testing and the selection outline
+ */
+function getAnnotationBounds({ type, coordinates }: Pick<Annotation, 'type' | 'coordinates'>): Bounds {
+  const { x, y, width, height, radius, points } = coordinates;
+
+  switch (type) {
+    case 'CIRCLE': {
+      const r = radius || 30;
+      return { x: x - r, y: y - r, width: r * 2, height: r * 2 };
+    }
+    case 'ARROW': {
+      if (points && points.length >= 2) {
+        const [from, to] = points;
+        return {
+          x: Math.min(from.x, to.x),
+          y: Math.min(from.y, to.y) - 5,
+          width: Math.abs(to.x - from.x),
+          height: Math.abs(to.y - from.y) + 10
+        };
+      }
+      return { x, y: y - 5, width: width || 50, height: 10 };
+    }
+    case 'UNDERLINE':
+      return { x, y: y - 5, width: width || 200, height: 10 };
+    case 'NOTE':
+      return { x, y, width: NOTE_SIZE, height: NOTE_SIZE };
+    case 'HIGHLIGHT':
+      if (coordinates.quads?.length) {
+        return getQuadBounds(coordinates.quads);
+      }
+      return { x, y, width: width || 200, height: height || 20 };
+    default:
+      return { x, y, width: width || 100, height: height || 50 };
+  }
+}
+
+function containsPoint(bounds: Bounds, point: Point, tolerance = 0): boolean {
+  return point.x >= bounds.x - tolerance &&
+         point.x <= bounds.x + bounds.width + tolerance &&
+         point.y >= bounds.y - tolerance &&
+         point.y <= bounds.y + bounds.height + tolerance;
+}
+
+/**
+ * Coordinates for a shape dragged from `start` to `end`
+ */
+function coordinatesFromDrag(type: Annotation['type'], start: Point, end: Point): Coordinates {
+  switch (type) {
+    case 'CIRCLE':
+      return { x: start.x, y: start.y, radius: Math.hypot(end.x - start.x, end.y - start.y) };
+    case 'ARROW':
+      return { x: start.x, y: start.y, width: Math.abs(end.x - start.x), points: [start, end] };
+    case 'UNDERLINE':
+      return { x: Math.min(start.x, end.x), y: start.y, width: Math.abs(end.x - start.x) };
+    case 'NOTE':
+      return { x: end.x, y: end.y };
+    default:
+      return {
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        width: Math.abs(end.x - start.x),
+        height: Math.abs(end.y - start.y)
+      };
+  }
+}
+
+function moveCoordinates(coordinates: Coordinates, dx: number, dy: number): Coordinates {
+  return {
+    ...coordinates,
+    x: coordinates.x + dx,
+    y: coordinates.y + dy,
+    ...(coordinates.points && {
+      points: coordinates.points.map(point => ({ x: point.x + dx, y: point.y + dy }))
+    }),
+    ...(coordinates.quads && {
+      quads: coordinates.quads.map(quad => quad.map((value, i) => value + (i % 2 === 0 ? dx : dy)))
+    })
+  };
+}
+
+/**
+ * Drag the bottom-right handle of an annotation to `point`
+ */
+function resizeCoordinates(annotation: Annotation, point: Point): Coordinates {
+  const { coordinates } = annotation;
+
+  switch (annotation.type) {
+    case 'CIRCLE':
+      return { ...coordinates, radius: Math.max(5, Math.hypot(point.x - coordinates.x, point.y - coordinates.y)) };
+    case 'ARROW':
+      if (coordinates.points && coordinates.points.length >= 2) {
+        return { ...coordinates, points: [coordinates.points[0], point] };
+      }
+      return { ...coordinates, width: Math.max(10, point.x - coordinates.x) };
+    case 'UNDERLINE':
+      return { ...coordinates, width: Math.max(5, point.x - coordinates.x) };
+    case 'NOTE':
+      return coordinates;
+    default:
+      // Text highlights follow the lines they cover, so they can only be moved
+      if (coordinates.quads?.length) {
+        return coordinates;
+      }
+      return {
+        ...coordinates,
+        width: Math.max(5, point.x - coordinates.x),
+        height: Math.max(5, point.y - coordinates.y)
+      };
+  }
 }
 
 export default function PDFAnnotations({
   annotations,
   pageNumber,
   pdfDimensions,
-  scale,
-  onAnnotationClick
+  viewMatrix,
+  userToPage,
+  onAnnotationClick,
+  activeTool,
+  drawStyle = { color: '#facc15', opacity: 0.4 },
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onCreateAnnotation,
+  onUpdateAnnotation,
+  pulseRequest
 }: PDFAnnotationsProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pulseCanvasRef = useRef<HTMLCanvasElement>(null);
+  // When the current pulse started, so redraws for zoom or new annotations don't restart it
+  const pulseStartRef = useRef<{ request: PDFAnnotationsProps['pulseRequest']; startedAt: number } | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Shape being drawn, or the new coordinates of the annotation being moved/resized
+  const [draft, setDraft] = useState<Annotation | null>(null);
+
+  // Size of the rendered page, rotated a quarter turn when the view is
+  const viewSize = {
+    width: Math.abs(viewMatrix[0]) * pdfDimensions.width + Math.abs(viewMatrix[2]) * pdfDimensions.height,
+    height: Math.abs(viewMatrix[1]) * pdfDimensions.width + Math.abs(viewMatrix[3]) * pdfDimensions.height
+  };
+
+  // Everything below works in page space, so bring PDF quads over once
+  const pageAnnotations = useMemo(() => annotations
+    .filter(annotation => annotation.pageNumber === pageNumber)
+    .map(annotation => hasUserSpaceQuads(annotation.coordinates)
+      ? {
+          ...annotation,
+          coordinates: {
+            ...annotation.coordinates,
+            quads: getPageQuads(annotation.coordinates, userToPage),
+            pageWidth: undefined,
+            pageHeight: undefined
+          }
+        }
+      : annotation
+    ), [annotations, pageNumber, userToPage]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -27,31 +225,92 @@ export default function PDFAnnotations({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Set canvas size to match PDF dimensions
-    canvas.width = pdfDimensions.width;
-    canvas.height = pdfDimensions.height;
+    // Back the canvas with device pixels so highlights stay sharp when zoomed
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewSize.width * pixelRatio);
+    canvas.height = Math.round(viewSize.height * pixelRatio);
 
     // Clear canvas
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Draw annotations for current page
-    const pageAnnotations = annotations.filter(
-      annotation => annotation.pageNumber === pageNumber
-    );
+    // Draw in page space, the view matrix applies zoom and rotation
+    const [a, b, c, d, e, f] = viewMatrix;
+    ctx.setTransform(a * pixelRatio, b * pixelRatio, c * pixelRatio, d * pixelRatio, e * pixelRatio, f * pixelRatio);
+
+    // Draw annotations for current page, with any in-progress edit applied
+    const visibleAnnotations = pageAnnotations
+      .map(annotation => (draft && draft.id === annotation.id ? draft : annotation));
 
-    pageAnnotations.forEach((annotation, index) => {
-      drawAnnotation(ctx, annotation, index);
+    visibleAnnotations.forEach(annotation => {
+      drawAnnotation(ctx, annotation);
     });
-  }, [annotations, pageNumber, pdfDimensions]);
 
-  const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation, index: number) => {
-    const { coordinates, type, color, opacity } = annotation;
+    // Shape still being dragged out
+    if (draft && !visibleAnnotations.some(annotation => annotation.id === draft.id)) {
+      drawAnnotation(ctx, draft);
+    }
+
+    const selected = visibleAnnotations.find(annotation => annotation.id === selectedAnnotationId);
+    if (selected) {
+      drawSelection(ctx, selected);
+    }
+  }, [pageAnnotations, viewMatrix, viewSize.width, viewSize.height, draft, selectedAnnotationId]);
+
+  // Pulse cited highlights on their own canvas, leaving the annotations themselves untouched
+  useEffect(() => {
+    const canvas = pulseCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const targets = pulseRequest
+      ? pageAnnotations.filter(annotation => pulseRequest.annotationIds.includes(annotation.id))
+      : [];
+    if (!canvas || !ctx || targets.length === 0) return;
+
+    let pulseStart = pulseStartRef.current;
+    if (!pulseStart || pulseStart.request !== pulseRequest) {
+      pulseStart = { request: pulseRequest, startedAt: performance.now() };
+      pulseStartRef.current = pulseStart;
+    }
+    const { startedAt } = pulseStart;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewSize.width * pixelRatio);
+    canvas.height = Math.round(viewSize.height * pixelRatio);
+    const [a, b, c, d, e, f] = viewMatrix;
+
+    let frame = 0;
+    const drawFrame = (now: number) => {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const elapsed = now - startedAt;
+      if (elapsed >= PULSE_DURATION_MS * PULSE_COUNT) return;
+
+      ctx.setTransform(a * pixelRatio, b * pixelRatio, c * pixelRatio, d * pixelRatio, e * pixelRatio, f * pixelRatio);
+      const progress = (elapsed % PULSE_DURATION_MS) / PULSE_DURATION_MS;
+      targets.forEach(annotation => animateAnnotation(ctx, annotation, progress));
+      frame = requestAnimationFrame(drawFrame);
+    };
+    frame = requestAnimationFrame(drawFrame);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [pulseRequest, pageAnnotations, viewMatrix, viewSize.width, viewSize.height]);
+
+  const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+    const { coordinates, type, opacity } = annotation;
+    // Annotations drawn here or imported from the PDF keep their own style
+    const isUserAnnotation = annotation.source === 'USER' || annotation.source === 'IMPORTED';
+    const color = isUserAnnotation ? annotation.color : AI_ANNOTATION_COLOR;
 
     // Save the context before making changes
     ctx.save();
 
-    // Apply uniform light opacity for all highlights (15% for better readability)
-    ctx.globalAlpha = 0.15; // Uniform light opacity for all highlights
+    // AI highlights use a uniform light opacity (15%) for readability, user annotations keep their own
+    ctx.globalAlpha = isUserAnnotation ? opacity : 0.15;
 
     switch (type) {
       case 'HIGHLIGHT':
@@ -69,24 +328,39 @@ export default function PDFAnnotations({
       case 'UNDERLINE':
         drawUnderline(ctx, coordinates, color);
         break;
+      case 'NOTE':
+        drawNote(ctx, coordinates, color);
+        break;
+      case 'INK':
+        drawInk(ctx, coordinates, color);
+        break;
       default:
         break;
     }
 
     // Restore the context
     ctx.restore();
-
-    // Add a subtle animation for new annotations
-    if (index === annotations.length - 1) {
-      animateAnnotation(ctx, annotation);
-    }
   };
 
   const drawHighlight = (ctx: CanvasRenderingContext2D, coordinates: any, color: string) => {
-    // Uniform light highlighting for better text readability
-    // Use solid red color - opacity is controlled by ctx.globalAlpha above
-    ctx.fillStyle = '#ff0000'; // Pure red, opacity controlled globally
-    
+    // Opacity is controlled by ctx.globalAlpha above
+    ctx.fillStyle = color;
+
+    // Text selections store one quad per line
+    if (coordinates.quads?.length) {
+      coordinates.quads.forEach((quad: number[]) => {
+        const [ulx, uly, urx, ury, llx, lly, lrx, lry] = quad;
+        ctx.beginPath();
+        ctx.moveTo(ulx, uly);
+        ctx.lineTo(urx, ury);
+        ctx.lineTo(lrx, lry);
+        ctx.lineTo(llx, lly);
+        ctx.closePath();
+        ctx.fill();
+      });
+      return;
+    }
+
     ctx.fillRect(
       coordinates.x,
       coordinates.y,
@@ -96,8 +370,8 @@ export default function PDFAnnotations({
   };
 
   const drawCircle = (ctx: CanvasRenderingContext2D, coordinates: any, color: string) => {
-    // Use solid colors - opacity is controlled by ctx.globalAlpha above
-    ctx.strokeStyle = '#ff0000'; // Pure red, opacity controlled globally
+    // Opacity is controlled by ctx.globalAlpha above
+    ctx.strokeStyle = color;
     ctx.lineWidth = 2;
     ctx.beginPath();
     ctx.arc(
@@ -108,38 +382,47 @@ export default function PDFAnnotations({
       2 * Math.PI
     );
     ctx.stroke();
-    
+
     // Add a subtle fill with same global opacity
-    ctx.fillStyle = '#ff0000'; // Pure red, opacity controlled globally
+    ctx.fillStyle = color;
     ctx.fill();
   };
 
   const drawArrow = (ctx: CanvasRenderingContext2D, coordinates: any, color: string) => {
-    const { x, y, width = 50, height = 20 } = coordinates;
-    
-    // Use solid colors - opacity is controlled by ctx.globalAlpha above
-    ctx.strokeStyle = '#ff0000'; // Pure red, opacity controlled globally
-    ctx.fillStyle = '#ff0000'; // Pure red, opacity controlled globally
+    const { x, y, width = 50, points } = coordinates;
+
+    // Arrows drawn in the viewer store both ends, older ones only point right
+    const from: Point = points?.[0] || { x, y };
+    const to: Point = points?.[1] || { x: x + width, y };
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+
+    // Opacity is controlled by ctx.globalAlpha above
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
     ctx.lineWidth = 2;
-    
+
     // Arrow body
     ctx.beginPath();
-    ctx.moveTo(x, y);
-    ctx.lineTo(x + width - 10, y);
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x - 10 * Math.cos(angle), to.y - 10 * Math.sin(angle));
     ctx.stroke();
-    
+
     // Arrow head
+    ctx.save();
+    ctx.translate(to.x, to.y);
+    ctx.rotate(angle);
     ctx.beginPath();
-    ctx.moveTo(x + width - 10, y - 5);
-    ctx.lineTo(x + width, y);
-    ctx.lineTo(x + width - 10, y + 5);
+    ctx.moveTo(-10, -5);
+    ctx.lineTo(0, 0);
+    ctx.lineTo(-10, 5);
     ctx.closePath();
     ctx.fill();
+    ctx.restore();
   };
 
   const drawRectangle = (ctx: CanvasRenderingContext2D, coordinates: any, color: string) => {
-    // Use solid colors - opacity is controlled by ctx.globalAlpha above
-    ctx.strokeStyle = '#ff0000'; // Pure red, opacity controlled globally
+    // Opacity is controlled by ctx.globalAlpha above
+    ctx.strokeStyle = color;
     ctx.lineWidth = 2;
     ctx.strokeRect(
       coordinates.x,
@@ -150,75 +433,269 @@ export default function PDFAnnotations({
   };
 
   const drawUnderline = (ctx: CanvasRenderingContext2D, coordinates: any, color: string) => {
-    // Use solid colors - opacity is controlled by ctx.globalAlpha above
-    ctx.strokeStyle = '#ff0000'; // Pure red, opacity controlled globally
+    // Opacity is controlled by ctx.globalAlpha above
+    ctx.strokeStyle = color;
     ctx.lineWidth = 2;
     ctx.beginPath();
+
+    // Imported underlines follow each line of text they cover
+    if (coordinates.quads?.length) {
+      coordinates.quads.forEach((quad: number[]) => {
+        const [, , , , llx, lly, lrx, lry] = quad;
+        ctx.moveTo(llx, lly);
+        ctx.lineTo(lrx, lry);
+      });
+      ctx.stroke();
+      return;
+    }
+
     ctx.moveTo(coordinates.x, coordinates.y);
     ctx.lineTo(coordinates.x + (coordinates.width || 200), coordinates.y);
     ctx.stroke();
   };
 
-  // Simplified animation that doesn't interfere with uniform opacity
-  const animateAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
-    // Skip animation to prevent opacity conflicts - annotations appear immediately with uniform opacity
-    // This ensures consistent 15% opacity for all highlights without animation interference
-    return;
+  const drawInk = (ctx: CanvasRenderingContext2D, coordinates: any, color: string) => {
+    // Opacity is controlled by ctx.globalAlpha above
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    (coordinates.strokes || []).forEach((stroke: Point[]) => {
+      ctx.beginPath();
+      stroke.forEach((point, i) => {
+        if (i === 0) {
+          ctx.moveTo(point.x, point.y);
+        } else {
+          ctx.lineTo(point.x, point.y);
+        }
+      });
+      ctx.stroke();
+    });
   };
 
-  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas || !onAnnotationClick) return;
+  const drawNote = (ctx: CanvasRenderingContext2D, coordinates: any, color: string) => {
+    const { x, y } = coordinates;
 
+    // Sticky note with a folded corner - always opaque enough to spot
+    ctx.globalAlpha = Math.max(ctx.globalAlpha, 0.8);
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + NOTE_SIZE - 6, y);
+    ctx.lineTo(x + NOTE_SIZE, y + 6);
+    ctx.lineTo(x + NOTE_SIZE, y + NOTE_SIZE);
+    ctx.lineTo(x, y + NOTE_SIZE);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.strokeStyle = '#374151';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(x + 4, y + 9);
+    ctx.lineTo(x + NOTE_SIZE - 4, y + 9);
+    ctx.moveTo(x + 4, y + 14);
+    ctx.lineTo(x + NOTE_SIZE - 4, y + 14);
+    ctx.stroke();
+  };
+
+  const drawSelection = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+    const bounds = getAnnotationBounds(annotation);
+
+    ctx.save();
+    ctx.strokeStyle = '#2563eb';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    ctx.strokeRect(bounds.x - 2, bounds.y - 2, bounds.width + 4, bounds.height + 4);
+
+    // Resize handle in the bottom-right corner
+    if (annotation.type !== 'NOTE') {
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#2563eb';
+      const handle = getResizeHandle(annotation);
+      ctx.fillRect(handle.x, handle.y, handle.width, handle.height);
+    }
+    ctx.restore();
+  };
+
+  const getResizeHandle = (annotation: Annotation): Bounds => {
+    const { coordinates } = annotation;
+
+    // Arrows resize from their tip
+    if (annotation.type === 'ARROW' && coordinates.points && coordinates.points.length >= 2) {
+      const tip = coordinates.points[1];
+      return { x: tip.x - HANDLE_SIZE / 2, y: tip.y - HANDLE_SIZE / 2, width: HANDLE_SIZE, height: HANDLE_SIZE };
+    }
+
+    const bounds = getAnnotationBounds(annotation);
+    return {
+      x: bounds.x + bounds.width - HANDLE_SIZE / 2,
+      y: bounds.y + bounds.height - HANDLE_SIZE / 2,
+      width: HANDLE_SIZE,
+      height: HANDLE_SIZE
+    };
+  };
+
+  // One frame of a pulse - a ring around the annotation that grows and fades as progress goes from 0 to 1
+  const animateAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation, progress: number) => {
+    const bounds = getAnnotationBounds(annotation);
+    const spread = 2 + progress * 8;
+
+    ctx.save();
+    ctx.globalAlpha = 1 - progress;
+    ctx.strokeStyle = annotation.source === 'AI' ? AI_ANNOTATION_COLOR : annotation.color;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(bounds.x - spread, bounds.y - spread, bounds.width + spread * 2, bounds.height + spread * 2);
+    ctx.restore();
+  };
+
+  // Convert a pointer position to page space, undoing zoom and rotation
+  const getCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement> | React.MouseEvent<HTMLCanvasElement>): Point => {
+    const canvas = canvasRef.current!;
     const rect = canvas.getBoundingClientRect();
-    const x = (event.clientX - rect.left) / scale;
-    const y = (event.clientY - rect.top) / scale;
+    return transformPoint(
+      invertMatrix(viewMatrix),
+      ((event.clientX - rect.left) / rect.width) * viewSize.width,
+      ((event.clientY - rect.top) / rect.height) * viewSize.height
+    );
+  };
 
-    // Find clicked annotation
-    const clickedAnnotation = annotations.find(annotation => {
-      if (annotation.pageNumber !== pageNumber) return false;
-      
-      const coords = annotation.coordinates;
-      
-      switch (annotation.type) {
-        case 'HIGHLIGHT':
-        case 'RECTANGLE':
-          return x >= coords.x && 
-                 x <= coords.x + (coords.width || 100) &&
-                 y >= coords.y && 
-                 y <= coords.y + (coords.height || 20);
-        
-        case 'CIRCLE':
-          const distance = Math.sqrt(
-            Math.pow(x - coords.x, 2) + Math.pow(y - coords.y, 2)
-          );
-          return distance <= (coords.radius || 30);
-        
-        case 'ARROW':
-        case 'UNDERLINE':
-          return x >= coords.x && 
-                 x <= coords.x + (coords.width || 50) &&
-                 Math.abs(y - coords.y) <= 10;
-        
-        default:
-          return false;
-      }
+  // Moved highlights go back to PDF user space if that's how they were stored
+  const toStoredCoordinates = (annotationId: string, coordinates: Coordinates): Coordinates => {
+    const original = annotations.find(annotation => annotation.id === annotationId);
+    if (!original || !hasUserSpaceQuads(original.coordinates) || !coordinates.quads) {
+      return coordinates;
+    }
+
+    const { pageWidth, pageHeight } = original.coordinates;
+    return toHighlightCoordinates(coordinates.quads, {
+      userToPage: userToPage || [1, 0, 0, -1, 0, pageHeight],
+      width: pageWidth,
+      height: pageHeight
     });
+  };
+
+  const findAnnotationAt = (point: Point, predicate: (annotation: Annotation) => boolean = () => true) => {
+    // Topmost (last drawn) annotation wins
+    return [...pageAnnotations].reverse().find(annotation =>
+      predicate(annotation) &&
+      containsPoint(getAnnotationBounds(annotation), point, 4)
+    );
+  };
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onAnnotationClick || activeTool) return;
+
+    // Find clicked annotation
+    const clickedAnnotation = findAnnotationAt(getCanvasPoint(event));
 
     if (clickedAnnotation) {
       onAnnotationClick(clickedAnnotation);
     }
   };
 
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!activeTool) return;
+
+    const point = getCanvasPoint(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    if (activeTool === 'SELECT') {
+      // Only the user's own annotations can be edited
+      const selected = pageAnnotations.find(annotation => annotation.id === selectedAnnotationId);
+      if (selected && selected.source === 'USER' && containsPoint(getResizeHandle(selected), point, 2)) {
+        dragRef.current = { mode: 'resize', start: point, annotation: selected };
+        return;
+      }
+
+      const target = findAnnotationAt(point, annotation => annotation.source === 'USER');
+      onSelectAnnotation?.(target || null);
+      if (target) {
+        dragRef.current = { mode: 'move', start: point, annotation: target };
+      }
+      return;
+    }
+
+    dragRef.current = { mode: 'draw', start: point };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !activeTool) return;
+
+    const point = getCanvasPoint(event);
+
+    if (drag.mode === 'draw' && activeTool !== 'SELECT') {
+      setDraft({
+        id: 'draft',
+        type: activeTool,
+        pageNumber,
+        coordinates: coordinatesFromDrag(activeTool, drag.start, point),
+        color: drawStyle.color,
+        opacity: drawStyle.opacity,
+        source: 'USER',
+        createdAt: new Date(),
+        documentId: ''
+      });
+    } else if (drag.annotation) {
+      const coordinates = drag.mode === 'move'
+        ? moveCoordinates(drag.annotation.coordinates, point.x - drag.start.x, point.y - drag.start.y)
+        : resizeCoordinates(drag.annotation, point);
+      setDraft({ ...drag.annotation, coordinates });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || !activeTool) return;
+
+    const point = getCanvasPoint(event);
+    const distance = Math.hypot(point.x - drag.start.x, point.y - drag.start.y);
+
+    if (drag.mode === 'draw' && activeTool !== 'SELECT') {
+      // Notes are placed with a click, every other shape needs a drag
+      if (activeTool === 'NOTE' || distance >= MIN_DRAG_DISTANCE) {
+        onCreateAnnotation?.({
+          type: activeTool,
+          pageNumber,
+          coordinates: coordinatesFromDrag(activeTool, drag.start, point),
+          color: drawStyle.color,
+          opacity: drawStyle.opacity
+        });
+      }
+    } else if (drag.annotation && draft && distance >= MIN_DRAG_DISTANCE) {
+      onUpdateAnnotation?.(drag.annotation.id, {
+        coordinates: toStoredCoordinates(drag.annotation.id, draft.coordinates)
+      });
+    }
+
+    setDraft(null);
+  };
+
   return (
-    <canvas
-      ref={canvasRef}
-      className="absolute inset-0 pointer-events-auto cursor-pointer"
-      onClick={handleCanvasClick}
-      style={{
-        width: '100%',
-        height: '100%'
-      }}
-    />
+    <>
+      <canvas
+        ref={canvasRef}
+        // Without a drawing tool, pointer events fall through to the text layer for selection
+        className={`absolute inset-0 ${activeTool ? 'pointer-events-auto' : 'pointer-events-none'} ${activeTool && activeTool !== 'SELECT' ? 'cursor-crosshair' : 'cursor-pointer'}`}
+        onClick={handleCanvasClick}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        style={{
+          width: viewSize.width,
+          height: viewSize.height,
+          touchAction: activeTool ? 'none' : 'auto'
+        }}
+      />
+      <canvas
+        ref={pulseCanvasRef}
+        className="absolute inset-0 pointer-events-none"
+        style={{ width: viewSize.width, height: viewSize.height }}
+      />
+    </>
   );
 }
@@ -0,0 +1,183 @@
+"use client";
+
+import { useMemo } from "react";
+import { Page, type DocumentProps } from 'react-pdf';
+import { AlertCircle, Loader2 } from "lucide-react";
+import { getPageQuads, getViewMatrix, transformQuad, type Matrix, type PageView } from "@/lib/page-geometry";
+import PDFAnnotations, { type AnnotationStyle, type AnnotationTool } from "./PDFAnnotations";
+import type { Annotation, AnnotationChanges, AnnotationDraft, FindHit } from "@/types/pdf";
+
+export type PDFDocumentProxy = Parameters<NonNullable<DocumentProps['onLoadSuccess']>>[0];
+
+/**
+ * Everything needed to lay out a page before it is rendered
+ */
+export interface PageLayout extends PageView {
+  // The page's own /Rotate
+  rotate: number;
+  // Page space size - the page at 100% with no extra rotation
+  size: { width: number; height: number };
+}
+
+/**
+ * Read the size and transform of every page, without rendering any of them
+ */
+export async function loadPageLayouts(pdf: PDFDocumentProxy): Promise<PageLayout[]> {
+  return Promise.all(
+    Array.from({ length: pdf.numPages }, async (_, index) => {
+      const page = await pdf.getPage(index + 1);
+      // Without a rotation argument the viewport applies the page's own /Rotate and CropBox
+      const viewport = page.getViewport({ scale: 1.0 });
+      const [x0, y0, x1, y1] = page.view;
+
+      return {
+        userToPage: viewport.transform as Matrix,
+        width: x1 - x0,
+        height: y1 - y0,
+        rotate: page.rotate,
+        size: { width: viewport.width, height: viewport.height }
+      };
+    })
+  );
+}
+
+/**
+ * Size of a page on screen at the given zoom and rotation
+ */
+export function getRenderedSize(layout: PageLayout, scale: number, rotation: number) {
+  const quarterTurn = rotation % 180 !== 0;
+  return {
+    width: (quarterTurn ? layout.size.height : layout.size.width) * scale,
+    height: (quarterTurn ? layout.size.width : layout.size.height) * scale
+  };
+}
+
+interface PDFPageViewProps {
+  pageNumber: number;
+  layout: PageLayout;
+  scale: number;
+  rotation: number;
+  // Pages far from the viewport keep their size but skip rendering
+  isRendered: boolean;
+  annotations: Annotation[];
+  // Find bar matches on this page, drawn apart from annotations and never stored
+  findHits: FindHit[];
+  activeFindHit: FindHit | null;
+  activeTool: AnnotationTool | null;
+  drawStyle: AnnotationStyle;
+  selectedAnnotationId: string | null;
+  onSelectAnnotation: (annotation: Annotation | null) => void;
+  onCreateAnnotation: (annotation: AnnotationDraft) => void;
+  onUpdateAnnotation?: (annotationId: string, changes: AnnotationChanges) => void;
+  // Cited highlights to pulse once scrolled to
+  pulseRequest?: { annotationIds: string[] } | null;
+  pageRef?: (element: HTMLDivElement | null) => void;
+}
+
+/**
+ * One page of the viewer with its annotation overlay
+ */
+export default function PDFPageView({
+  pageNumber,
+  layout,
+  scale,
+  rotation,
+  isRendered,
+  annotations,
+  findHits,
+  activeFindHit,
+  activeTool,
+  drawStyle,
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onCreateAnnotation,
+  onUpdateAnnotation,
+  pulseRequest,
+  pageRef
+}: PDFPageViewProps) {
+  // Page space to the rendered page, covering zoom and rotation
+  const viewMatrix = useMemo(
+    () => getViewMatrix(layout.size, scale, rotation),
+    [layout.size, scale, rotation]
+  );
+  const renderedSize = getRenderedSize(layout, scale, rotation);
+
+  return (
+    <div
+      ref={pageRef}
+      data-page-number={pageNumber}
+      className="relative bg-white shadow-lg ring-1 ring-gray-300"
+      style={{ width: renderedSize.width, height: renderedSize.height }}
+    >
+      {isRendered ? (
+        <>
+          <Page
+            pageNumber={pageNumber}
+            scale={scale}
+            // react-pdf replaces the page's own rotation, so add ours on top of it
+            rotate={(layout.rotate + rotation) % 360}
+            renderTextLayer
+            renderAnnotationLayer={false}
+            loading={
+              <div className="flex items-center justify-center h-full w-full">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+              </div>
+            }
+            error={
+              <div className="flex items-center justify-center h-full w-full bg-gray-50">
+                <div className="text-center">
+                  <AlertCircle className="h-8 w-8 text-red-500 mx-auto mb-2" />
+                  <p className="text-gray-600">Failed to load page</p>
+                </div>
+              </div>
+            }
+          />
+
+          {/* Annotations Overlay */}
+          <div className="absolute inset-0 pointer-events-none">
+            <PDFAnnotations
+              annotations={annotations}
+              pageNumber={pageNumber}
+              pdfDimensions={layout.size}
+              viewMatrix={viewMatrix}
+              userToPage={layout.userToPage}
+              activeTool={activeTool}
+              drawStyle={drawStyle}
+              selectedAnnotationId={selectedAnnotationId}
+              onSelectAnnotation={onSelectAnnotation}
+              onCreateAnnotation={onCreateAnnotation}
+              onUpdateAnnotation={onUpdateAnnotation}
+              pulseRequest={pulseRequest}
+            />
+          </div>
+
+          {/* Find matches */}
+          {findHits.length > 0 && (
+            <svg
+              className="absolute inset-0 pointer-events-none mix-blend-multiply"
+              width={renderedSize.width}
+              height={renderedSize.height}
+            >
+              {findHits.map((hit, hitIndex) =>
+                (getPageQuads(hit.coordinates, layout.userToPage) || []).map((quad, quadIndex) => {
+                  const [ulx, uly, urx, ury, llx, lly, lrx, lry] = transformQuad(viewMatrix, quad);
+                  return (
+                    <polygon
+                      key={`${hitIndex}-${quadIndex}`}
+                      points={`${ulx},${uly} ${urx},${ury} ${lrx},${lry} ${llx},${lly}`}
+                      className={hit === activeFindHit ? "fill-orange-400" : "fill-yellow-200"}
+                    />
+                  );
+                })
+              )}
+            </svg>
+          )}
+        </>
+      ) : (
+        <div className="flex items-center justify-center h-full w-full text-sm text-gray-300">
+          {pageNumber}
+        </div>
+      )}
+    </div>
+  );
+}
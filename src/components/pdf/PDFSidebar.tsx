@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Thumbnail } from 'react-pdf';
+import useSWR from "swr";
+import { Button } from "@/components/ui/button";
+import { BookOpen, Images, Loader2, StickyNote } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getRenderedSize, type PageLayout, type PDFDocumentProxy } from "./PDFPageView";
+import type { Annotation, DocumentOutlineResponse, OutlineEntry } from "@/types/pdf";
+
+interface PDFSidebarProps {
+  documentId: string;
+  pdf: PDFDocumentProxy;
+  pageLayouts: PageLayout[];
+  rotation: number;
+  currentPage: number;
+  annotationsByPage: Map<number, Annotation[]>;
+  onPageSelect: (pageNumber: number) => void;
+}
+
+type SidebarTab = 'thumbnails' | 'outline';
+
+const THUMBNAIL_WIDTH = 112;
+
+// Outline fetcher, only called once the outline tab is opened
+const outlineFetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to fetch document outline');
+  }
+  return response.json();
+};
+
+interface PageThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  layout: PageLayout;
+  rotation: number;
+  isCurrent: boolean;
+  hasAiHighlights: boolean;
+  hasUserNotes: boolean;
+  scrollRoot: HTMLElement | null;
+  onSelect: (pageNumber: number) => void;
+}
+
+/**
+ * One thumbnail, rendered once it first scrolls near the sidebar's viewport
+ */
+function PageThumbnail({
+  pdf,
+  pageNumber,
+  layout,
+  rotation,
+  isCurrent,
+  hasAiHighlights,
+  hasUserNotes,
+  scrollRoot,
+  onSelect
+}: PageThumbnailProps) {
+  const itemRef = useRef<HTMLLIElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const renderedSize = getRenderedSize(layout, 1, rotation);
+  const height = THUMBNAIL_WIDTH * renderedSize.height / renderedSize.width;
+
+  useEffect(() => {
+    const item = itemRef.current;
+    if (!item || isVisible) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => entry.isIntersecting && setIsVisible(true),
+      { root: scrollRoot, rootMargin: '300px 0px' }
+    );
+    observer.observe(item);
+    return () => observer.disconnect();
+  }, [scrollRoot, isVisible]);
+
+  // Keep the page being read in view in the sidebar
+  useEffect(() => {
+    if (isCurrent) {
+      itemRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [isCurrent]);
+
+  return (
+    <li ref={itemRef} className="flex flex-col items-center">
+      <div
+        className={cn(
+          "relative bg-white shadow-sm ring-1 ring-gray-300",
+          isCurrent && "ring-2 ring-blue-500"
+        )}
+        style={{ width: THUMBNAIL_WIDTH, height }}
+      >
+        {isVisible && (
+          <Thumbnail
+            pdf={pdf}
+            pageNumber={pageNumber}
+            width={THUMBNAIL_WIDTH}
+            // react-pdf replaces the page's own rotation, so add ours on top of it
+            rotate={(layout.rotate + rotation) % 360}
+            onItemClick={() => onSelect(pageNumber)}
+            loading={null}
+          />
+        )}
+        {!isVisible && (
+          <button className="absolute inset-0" onClick={() => onSelect(pageNumber)} />
+        )}
+
+        {/* Markers for pages worth revisiting */}
+        <div className="pointer-events-none absolute right-1 top-1 flex items-center space-x-1">
+          {hasAiHighlights && (
+            <span className="h-2.5 w-2.5 rounded-full bg-red-500" title="AI highlights" />
+          )}
+          {hasUserNotes && (
+            <StickyNote className="h-3.5 w-3.5 fill-yellow-200 text-yellow-600" />
+          )}
+        </div>
+      </div>
+      <span className={cn("mt-1 text-xs", isCurrent ? "font-medium text-blue-600" : "text-gray-500")}>
+        {pageNumber}
+      </span>
+    </li>
+  );
+}
+
+function OutlineList({
+  entries,
+  depth,
+  currentPage,
+  onPageSelect
+}: {
+  entries: OutlineEntry[];
+  depth: number;
+  currentPage: number;
+  onPageSelect: (pageNumber: number) => void;
+}) {
+  return (
+    <ul>
+      {entries.map((entry, index) => (
+        <li key={`${entry.title}-${index}`}>
+          <button
+            className={cn(
+              "flex w-full items-baseline justify-between rounded px-2 py-1 text-left text-sm hover:bg-gray-100 disabled:cursor-default disabled:text-gray-400 disabled:hover:bg-transparent",
+              entry.pageNumber === currentPage && "text-blue-600"
+            )}
+            style={{ paddingLeft: 8 + depth * 12 }}
+            disabled={entry.pageNumber === null}
+            onClick={() => entry.pageNumber && onPageSelect(entry.pageNumber)}
+          >
+            <span className={cn("truncate", depth === 0 && "font-medium")}>{entry.title}</span>
+            {entry.pageNumber && (
+              <span className="ml-2 flex-shrink-0 text-xs text-gray-400">{entry.pageNumber}</span>
+            )}
+          </button>
+          {entry.children.length > 0 && (
+            <OutlineList
+              entries={entry.children}
+              depth={depth + 1}
+              currentPage={currentPage}
+              onPageSelect={onPageSelect}
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Page thumbnails and the PDF's table of contents
+ */
+export default function PDFSidebar({
+  documentId,
+  pdf,
+  pageLayouts,
+  rotation,
+  currentPage,
+  annotationsByPage,
+  onPageSelect
+}: PDFSidebarProps) {
+  const [activeTab, setActiveTab] = useState<SidebarTab>('thumbnails');
+  const [scrollRoot, setScrollRoot] = useState<HTMLDivElement | null>(null);
+
+  const { data: outlineResponse, error: outlineError, isLoading: isOutlineLoading } = useSWR<DocumentOutlineResponse>(
+    activeTab === 'outline' ? `/api/documents/${documentId}/outline` : null,
+    outlineFetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+  const outline = outlineResponse?.data || [];
+
+  return (
+    <div className="flex h-full w-48 flex-shrink-0 flex-col border-r border-gray-200 bg-white">
+      <div className="flex items-center space-x-1 border-b border-gray-200 p-2">
+        <Button
+          variant={activeTab === 'thumbnails' ? "secondary" : "ghost"}
+          size="sm"
+          className="flex-1"
+          onClick={() => setActiveTab('thumbnails')}
+        >
+          <Images className="mr-1 h-4 w-4" />
+          Pages
+        </Button>
+        <Button
+          variant={activeTab === 'outline' ? "secondary" : "ghost"}
+          size="sm"
+          className="flex-1"
+          onClick={() => setActiveTab('outline')}
+        >
+          <BookOpen className="mr-1 h-4 w-4" />
+          Outline
+        </Button>
+      </div>
+
+      <div ref={setScrollRoot} className="flex-1 overflow-y-auto p-3">
+        {activeTab === 'thumbnails' && (
+          <ul className="space-y-3">
+            {pageLayouts.map((layout, index) => {
+              const pageAnnotations = annotationsByPage.get(index + 1) || [];
+              return (
+                <PageThumbnail
+                  key={index + 1}
+                  pdf={pdf}
+                  pageNumber={index + 1}
+                  layout={layout}
+                  rotation={rotation}
+                  isCurrent={index + 1 === currentPage}
+                  hasAiHighlights={pageAnnotations.some(annotation => annotation.source === 'AI')}
+                  hasUserNotes={pageAnnotations.some(annotation => annotation.source === 'USER')}
+                  scrollRoot={scrollRoot}
+                  onSelect={onPageSelect}
+                />
+              );
+            })}
+          </ul>
+        )}
+
+        {activeTab === 'outline' && (
+          <>
+            {isOutlineLoading && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+              </div>
+            )}
+            {outlineError && (
+              <p className="px-2 py-4 text-sm text-red-600">Failed to load the outline.</p>
+            )}
+            {outlineResponse && outline.length === 0 && (
+              <p className="px-2 py-4 text-sm text-gray-500">This PDF has no table of contents.</p>
+            )}
+            {outline.length > 0 && (
+              <OutlineList
+                entries={outline}
+                depth={0}
+                currentPage={currentPage}
+                onPageSelect={onPageSelect}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
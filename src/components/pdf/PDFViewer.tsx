@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
-import { Document as PDFDocument, Page, pdfjs } from 'react-pdf';
-import { ScrollArea } from "@/components/ui/scroll-area";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { Document as PDFDocument, pdfjs, type DocumentProps } from 'react-pdf';
+import 'react-pdf/dist/Page/TextLayer.css';
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { 
@@ -15,10 +15,32 @@ import {
   Download,
   FileText,
   AlertCircle,
-  Loader2
+  Loader2,
+  MousePointer2,
+  Highlighter,
+  Underline,
+  Square,
+  Circle,
+  MoveUpRight,
+  StickyNote,
+  Trash2,
+  FileDown,
+  File,
+  Rows3,
+  PanelLeft,
+  Search
 } from "lucide-react";
-import PDFAnnotations from "./PDFAnnotations";
-import type { Document, Annotation } from "@/types/pdf";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { getPageTextSelection, type PageTextSelection } from "@/lib/text-selection";
+import { getPageQuads, getViewMatrix, transformPoint } from "@/lib/page-geometry";
+import type { AnnotationStyle, AnnotationTool } from "./PDFAnnotations";
+import PDFPageView, { getRenderedSize, loadPageLayouts, type PageLayout, type PDFDocumentProxy } from "./PDFPageView";
+import PDFSidebar from "./PDFSidebar";
+import SelectionPopover from "./SelectionPopover";
+import FindBar from "./FindBar";
+import type { Document, Annotation, AnnotationChanges, AnnotationDraft, DocumentFindResponse, FindHit } from "@/types/pdf";
+import type { PassageContext } from "@/types/chat";
 
 // Configure PDF.js worker for react-pdf
 if (typeof window !== 'undefined') {
@@ -31,31 +53,362 @@ if (typeof window !== 'undefined') {
   }
 }
 
-// Types for react-pdf
-interface PDFPageDimensions {
-  width: number;
-  height: number;
-}
+// Spacing of the page stack in continuous mode, matching the p-8 and gap-4 classes below
+const CONTENT_PADDING = 32;
+const PAGE_GAP = 16;
+
+type ViewMode = 'single' | 'continuous';
 
 interface PDFViewerProps {
   document: Document;
   currentPage: number;
   annotations: Annotation[];
   onPageChange: (page: number) => void;
+  // Drawing tools are shown when the viewer can store user annotations
+  onCreateAnnotation?: (annotation: AnnotationDraft) => Promise<Annotation | null>;
+  onUpdateAnnotation?: (annotationId: string, changes: AnnotationChanges) => void;
+  onDeleteAnnotation?: (annotationId: string) => void;
+  // Send selected text to the tutor as the context of a question
+  onAskAboutPassage?: (passage: PassageContext) => void;
+  // Thread whose transcript is appended to annotated exports
+  conversationId?: string;
+  // Set by citation clicks - scrolls to the page's AI highlight, a new object for every click
+  // With annotationIds it scrolls to and pulses exactly those highlights
+  focusHighlight?: { pageNumber: number; annotationIds?: string[] } | null;
+}
+
+const DRAWING_TOOLS: Array<{ tool: AnnotationTool; label: string; icon: typeof Highlighter }> = [
+  { tool: 'SELECT', label: 'Select, move and resize', icon: MousePointer2 },
+  { tool: 'HIGHLIGHT', label: 'Highlight', icon: Highlighter },
+  { tool: 'UNDERLINE', label: 'Underline', icon: Underline },
+  { tool: 'RECTANGLE', label: 'Rectangle', icon: Square },
+  { tool: 'CIRCLE', label: 'Circle', icon: Circle },
+  { tool: 'ARROW', label: 'Arrow', icon: MoveUpRight },
+  { tool: 'NOTE', label: 'Note', icon: StickyNote },
+];
+
+const ANNOTATION_COLORS = ['#facc15', '#22c55e', '#3b82f6', '#a855f7', '#111827'];
+const NO_ANNOTATIONS: Annotation[] = [];
+const NO_FIND_HITS: FindHit[] = [];
+// Wait for a pause in typing before searching
+const FIND_DELAY_MS = 300;
+
+/**
+ * Page space quads covering highlight coordinates, a single box when they have no quads
+ */
+function getCoordinateQuads(coordinates: Annotation['coordinates'], layout: PageLayout): number[][] {
+  const { x, y, width = 0, height = 0 } = coordinates;
+  return getPageQuads(coordinates, layout.userToPage) || [[x, y, x + width, y, x, y + height, x + width, y + height]];
+}
+
+/**
+ * Distance from the top of the rendered page to the topmost of the quads, null when there are none
+ */
+function getQuadsOffset(quads: number[][], layout: PageLayout, scale: number, rotation: number): number | null {
+  const viewMatrix = getViewMatrix(layout.size, scale, rotation);
+  const offsets = quads.flatMap(quad =>
+    [0, 2, 4, 6].map(i => transformPoint(viewMatrix, quad[i], quad[i + 1]).y)
+  );
+
+  return offsets.length > 0 ? Math.max(0, Math.min(...offsets)) : null;
+}
+
+/**
+ * Scroll position that puts the top of `element` at the top of `container`
+ */
+function getScrollOffset(container: HTMLElement, element: HTMLElement): number {
+  return element.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
 }
 
 export default function PDFViewer({
   document,
   currentPage,
   annotations,
-  onPageChange
+  onPageChange,
+  onCreateAnnotation,
+  onUpdateAnnotation,
+  onDeleteAnnotation,
+  onAskAboutPassage,
+  conversationId,
+  focusHighlight
 }: PDFViewerProps) {
   const [scale, setScale] = useState(1.0);
   const [rotation, setRotation] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [numPages, setNumPages] = useState<number | null>(null);
-  const [pageDimensions, setPageDimensions] = useState<PDFPageDimensions>({ width: 600, height: 800 });
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  // Size and transform of every page, read once the document loads
+  const [pageLayouts, setPageLayouts] = useState<PageLayout[] | null>(null);
+  const [showSidebar, setShowSidebar] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('continuous');
+  // Pages close enough to the viewport to render in continuous mode
+  const [renderedPages, setRenderedPages] = useState({ first: 1, last: 1 });
+  const [activeTool, setActiveTool] = useState<AnnotationTool | null>(null);
+  const [drawStyle, setDrawStyle] = useState<AnnotationStyle>({ color: ANNOTATION_COLORS[0], opacity: 0.4 });
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState("");
+  const hasImportedAnnotations = annotations.some(annotation => annotation.source === 'IMPORTED');
+  const [isExporting, setIsExporting] = useState(false);
+  const [textSelection, setTextSelection] = useState<PageTextSelection | null>(null);
+  const [showFind, setShowFind] = useState(false);
+  const [findFocusRequest, setFindFocusRequest] = useState(0);
+  const [findQuery, setFindQuery] = useState("");
+  const [findHits, setFindHits] = useState<FindHit[]>([]);
+  const [findTruncated, setFindTruncated] = useState(false);
+  const [activeHitIndex, setActiveHitIndex] = useState(-1);
+  const [isFinding, setIsFinding] = useState(false);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pageElementsRef = useRef(new Map<number, HTMLDivElement>());
+  // Last page reported from scrolling, so it isn't mistaken for a jump requested from outside
+  const scrolledPageRef = useRef<number | null>(null);
+  // Page stack the scroll position was last restored for
+  const scrolledLayoutRef = useRef<unknown>(null);
+  const focusedRef = useRef<PDFViewerProps['focusHighlight']>(null);
+  const [pulseRequest, setPulseRequest] = useState<{ annotationIds: string[] } | null>(null);
+  const scrolledHitRef = useRef<FindHit | null>(null);
+  // Read by the find request without searching again on every page change
+  const currentPageRef = useRef(currentPage);
+
+  const canAnnotate = !!onCreateAnnotation;
+  const selectedAnnotation = annotations.find(
+    annotation => annotation.id === selectedAnnotationId && annotation.source === 'USER'
+  );
+
+  // Keep the note editor in sync with the selected annotation
+  useEffect(() => {
+    setNoteText(selectedAnnotation?.content || "");
+  }, [selectedAnnotation?.id, selectedAnnotation?.content]);
+
+  // Delete removes the selected annotation, Escape drops the selection
+  useEffect(() => {
+    if (!selectedAnnotation) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        onDeleteAnnotation?.(selectedAnnotation.id);
+        setSelectedAnnotationId(null);
+      } else if (event.key === 'Escape') {
+        setSelectedAnnotationId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedAnnotation, onDeleteAnnotation]);
+
+  useEffect(() => {
+    currentPageRef.current = currentPage;
+  }, [currentPage]);
+
+  // Ctrl+F (Cmd+F) opens the find bar instead of the browser's, which can't see unrendered pages
+  // Only while the viewer has focus (or nothing does) - elsewhere, e.g. in the chat, the browser's find still works
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      const isInViewer = target === window.document.body || !!viewerRef.current?.contains(target);
+      if (isInViewer && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        setShowFind(true);
+        setFindFocusRequest(prev => prev + 1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Look the text up once the user stops typing
+  useEffect(() => {
+    const query = findQuery.trim();
+    if (!showFind || !query) {
+      setFindHits([]);
+      setFindTruncated(false);
+      setActiveHitIndex(-1);
+      setIsFinding(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsFinding(true);
+      try {
+        const response = await fetch(
+          `/api/documents/${document.id}/find?q=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null);
+          throw new Error(errorData?.error?.message || `HTTP ${response.status}`);
+        }
+
+        const { data }: DocumentFindResponse = await response.json();
+        setFindHits(data.hits);
+        setFindTruncated(data.truncated);
+        // Start from the page being read rather than the top of the document
+        const nextHit = data.hits.findIndex(hit => hit.pageNumber >= currentPageRef.current);
+        setActiveHitIndex(data.hits.length > 0 ? Math.max(nextHit, 0) : -1);
+      } catch (findError) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to search document:', findError);
+          setFindHits([]);
+          setActiveHitIndex(-1);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsFinding(false);
+        }
+      }
+    }, FIND_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [findQuery, showFind, document.id]);
+
+  const handleNextHit = () => {
+    if (findHits.length > 0) {
+      setActiveHitIndex(prev => (prev + 1) % findHits.length);
+    }
+  };
+
+  const handlePreviousHit = () => {
+    if (findHits.length > 0) {
+      setActiveHitIndex(prev => (prev - 1 + findHits.length) % findHits.length);
+    }
+  };
+
+  const handleOpenFind = () => {
+    setShowFind(true);
+    setFindFocusRequest(prev => prev + 1);
+  };
+
+  const handleCloseFind = () => {
+    setShowFind(false);
+    setFindQuery("");
+  };
+
+  const activeFindHit = findHits[activeHitIndex] || null;
+
+  const handleToolChange = (tool: AnnotationTool) => {
+    setActiveTool(prev => (prev === tool ? null : tool));
+    if (tool !== 'SELECT') {
+      setSelectedAnnotationId(null);
+    }
+  };
+
+  // Restyling applies to the selected annotation as well as new ones
+  const handleStyleChange = (changes: Partial<AnnotationStyle>) => {
+    setDrawStyle(prev => ({ ...prev, ...changes }));
+    if (selectedAnnotation) {
+      onUpdateAnnotation?.(selectedAnnotation.id, changes);
+    }
+  };
+
+  const handleCreateAnnotation = async (draft: AnnotationDraft) => {
+    const created = await onCreateAnnotation?.(draft);
+
+    // New notes need their text, so switch straight to editing them
+    if (created && created.type === 'NOTE') {
+      setActiveTool('SELECT');
+      setSelectedAnnotationId(created.id);
+    }
+  };
+
+  const handleSelectAnnotation = (annotation: Annotation | null) => {
+    setSelectedAnnotationId(annotation?.id || null);
+  };
+
+  const commitNoteText = () => {
+    if (selectedAnnotation && noteText !== (selectedAnnotation.content || "")) {
+      onUpdateAnnotation?.(selectedAnnotation.id, { content: noteText });
+    }
+  };
+
+  const handleDeleteSelected = () => {
+    if (selectedAnnotation) {
+      onDeleteAnnotation?.(selectedAnnotation.id);
+      setSelectedAnnotationId(null);
+    }
+  };
+
+  // Offer actions for text selected on the page (only while no drawing tool is active)
+  const handleTextSelection = () => {
+    if (activeTool || !pageLayouts || !contentRef.current) {
+      return;
+    }
+
+    // Find the page the selection started on
+    const anchorNode = window.getSelection()?.anchorNode;
+    const anchorElement = anchorNode instanceof Element ? anchorNode : anchorNode?.parentElement;
+    const pageElement = anchorElement?.closest<HTMLElement>('[data-page-number]');
+    const pageNumber = Number(pageElement?.dataset.pageNumber);
+    const layout = pageLayouts[pageNumber - 1];
+    if (!pageElement || !layout) {
+      setTextSelection(null);
+      return;
+    }
+
+    setTextSelection(getPageTextSelection(
+      pageElement,
+      pageNumber,
+      getViewMatrix(layout.size, scale, rotation),
+      layout,
+      contentRef.current
+    ));
+  };
+
+  const clearTextSelection = () => {
+    setTextSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleHighlightSelection = async () => {
+    if (!textSelection || !onCreateAnnotation) return;
+
+    await onCreateAnnotation({
+      type: 'HIGHLIGHT',
+      pageNumber: textSelection.pageNumber,
+      coordinates: textSelection.coordinates,
+      color: drawStyle.color,
+      opacity: drawStyle.opacity,
+      content: textSelection.text
+    });
+    clearTextSelection();
+  };
+
+  const handleCopySelection = async () => {
+    if (!textSelection) return;
+
+    const citation = `"${textSelection.text}" (${document.title}, p. ${textSelection.pageNumber})`;
+    try {
+      await navigator.clipboard.writeText(citation);
+    } catch (copyError) {
+      console.error('Failed to copy selection:', copyError);
+    }
+    clearTextSelection();
+  };
+
+  const handleAskAboutSelection = () => {
+    if (!textSelection) return;
+
+    onAskAboutPassage?.({
+      text: textSelection.text,
+      pageNumber: textSelection.pageNumber
+    });
+    clearTextSelection();
+  };
+
+  // A selection belongs to the page it was made on
+  useEffect(() => {
+    setTextSelection(null);
+  }, [currentPage, scale, rotation]);
 
   const handlePreviousPage = () => {
     if (currentPage > 1) {
@@ -95,12 +448,45 @@ export default function PDFViewer({
     }
   };
 
+  // Download a copy with the highlights, notes and current thread burned in
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const query = conversationId ? `?conversationId=${encodeURIComponent(conversationId)}` : '';
+      const response = await fetch(`/api/documents/${document.id}/export${query}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error?.message || `HTTP ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `${(document.originalName || document.filename).replace(/\.pdf$/i, '')}-annotated.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      console.error('Failed to export annotated PDF:', exportError);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Handle PDF document load success
-  const onDocumentLoadSuccess = useCallback(({ numPages: totalPages }: { numPages: number }) => {
-    console.log('PDF loaded successfully with', totalPages, 'pages');
-    setNumPages(totalPages);
-    setIsLoading(false);
-    setError(null);
+  const onDocumentLoadSuccess = useCallback<NonNullable<DocumentProps['onLoadSuccess']>>(async (loadedPdf) => {
+    console.log('PDF loaded successfully with', loadedPdf.numPages, 'pages');
+    setNumPages(loadedPdf.numPages);
+    setPdf(loadedPdf);
+    try {
+      // Pages that aren't rendered yet still need their size to lay out the page stack
+      setPageLayouts(await loadPageLayouts(loadedPdf));
+      setError(null);
+    } catch (layoutError) {
+      console.error('Error reading PDF pages:', layoutError);
+      setError('Failed to load PDF: could not read its pages');
+    } finally {
+      setIsLoading(false);
+    }
   }, []);
 
   // Handle PDF document load error
@@ -110,19 +496,185 @@ export default function PDFViewer({
     setIsLoading(false);
   }, []);
 
-  // Handle page load success
-  const onPageLoadSuccess = useCallback((page: any) => {
-    const viewport = page.getViewport({ scale: 1.0 });
-    setPageDimensions({
-      width: viewport.width,
-      height: viewport.height
+  // Group annotations by page so each page's overlay only sees its own
+  const annotationsByPage = useMemo(() => {
+    const byPage = new Map<number, Annotation[]>();
+    annotations.forEach(annotation => {
+      const pageAnnotations = byPage.get(annotation.pageNumber);
+      if (pageAnnotations) {
+        pageAnnotations.push(annotation);
+      } else {
+        byPage.set(annotation.pageNumber, [annotation]);
+      }
     });
-  }, []);
+    return byPage;
+  }, [annotations]);
 
-  // Filter annotations for current page
-  const currentPageAnnotations = annotations.filter(
-    annotation => annotation.pageNumber === currentPage
-  );
+  // Where each page sits in the continuous page stack
+  const pageOffsets = useMemo(() => {
+    let top = CONTENT_PADDING;
+    return (pageLayouts || []).map(layout => {
+      const { height } = getRenderedSize(layout, scale, rotation);
+      const offset = { top, bottom: top + height };
+      top += height + PAGE_GAP;
+      return offset;
+    });
+  }, [pageLayouts, scale, rotation]);
+
+  // Render the pages around the viewport and follow the page being read
+  const handleScroll = useCallback(() => {
+    const container = scrollRef.current;
+    if (viewMode !== 'continuous' || !container || pageOffsets.length === 0) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = container;
+
+    // Keep a screen's worth of pages rendered either side so scrolling doesn't show blank pages
+    const first = Math.max(pageOffsets.findIndex(offset => offset.bottom >= scrollTop - clientHeight), 0);
+    let last = first;
+    while (last + 1 < pageOffsets.length && pageOffsets[last + 1].top <= scrollTop + clientHeight * 2) {
+      last++;
+    }
+    setRenderedPages(prev =>
+      prev.first === first + 1 && prev.last === last + 1 ? prev : { first: first + 1, last: last + 1 }
+    );
+
+    // The page under the upper third of the viewport is the one being read, short last pages can't get there
+    const readingLine = scrollTop + clientHeight / 3;
+    const readingIndex = pageOffsets.findIndex(offset => offset.bottom + PAGE_GAP > readingLine);
+    const page = readingIndex === -1 || scrollTop + clientHeight >= scrollHeight - 1
+      ? pageOffsets.length
+      : readingIndex + 1;
+
+    if (page !== currentPage) {
+      scrolledPageRef.current = page;
+      onPageChange(page);
+    }
+  }, [viewMode, pageOffsets, currentPage, onPageChange]);
+
+  // Page changes from outside (toolbar, chat, restored position) scroll to the page,
+  // zooming, rotating or switching modes keeps the current page in view
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (viewMode !== 'continuous') {
+      scrolledLayoutRef.current = null;
+      return;
+    }
+
+    const pageElement = pageElementsRef.current.get(currentPage);
+    if (!container || !pageElement) return;
+
+    const layoutChanged = scrolledLayoutRef.current !== pageOffsets;
+    if (!layoutChanged && currentPage === scrolledPageRef.current) return;
+
+    scrolledLayoutRef.current = pageOffsets;
+    scrolledPageRef.current = currentPage;
+    if (layoutChanged) {
+      container.scrollTo({ top: getScrollOffset(container, pageElement) - PAGE_GAP });
+      // Instant scrolls may not move at all, so work out the pages to render now
+      handleScroll();
+    } else {
+      container.scrollTo({ top: getScrollOffset(container, pageElement) - PAGE_GAP, behavior: 'smooth' });
+    }
+  }, [viewMode, currentPage, pageOffsets, handleScroll]);
+
+  // Citations scroll to the highlight they point at, even on the page already shown
+  useEffect(() => {
+    const container = scrollRef.current;
+    const pageElement = focusHighlight && pageElementsRef.current.get(focusHighlight.pageNumber);
+    const layout = focusHighlight && pageLayouts?.[focusHighlight.pageNumber - 1];
+    // Only a new request scrolls, not later edits to the annotations or zoom
+    if (!focusHighlight || focusHighlight === focusedRef.current || !container || !pageElement || !layout) return;
+
+    const { annotationIds } = focusHighlight;
+    const highlightOffset = getQuadsOffset(
+      (annotationsByPage.get(focusHighlight.pageNumber) || NO_ANNOTATIONS)
+        .filter(annotation => annotationIds?.length ? annotationIds.includes(annotation.id) : annotation.source === 'AI')
+        .flatMap(annotation => getCoordinateQuads(annotation.coordinates, layout)),
+      layout,
+      scale,
+      rotation
+    );
+    // New answers navigate before their highlights reach the cache, so wait for them
+    if (highlightOffset === null) return;
+
+    focusedRef.current = focusHighlight;
+    scrolledPageRef.current = focusHighlight.pageNumber;
+    container.scrollTo({
+      top: getScrollOffset(container, pageElement) + highlightOffset - container.clientHeight / 3,
+      behavior: 'smooth'
+    });
+    if (annotationIds?.length) {
+      setPulseRequest({ annotationIds });
+    }
+  }, [focusHighlight, pageLayouts, annotationsByPage, scale, rotation]);
+
+  const findHitsByPage = useMemo(() => {
+    const byPage = new Map<number, FindHit[]>();
+    findHits.forEach(hit => {
+      const pageHits = byPage.get(hit.pageNumber);
+      if (pageHits) {
+        pageHits.push(hit);
+      } else {
+        byPage.set(hit.pageNumber, [hit]);
+      }
+    });
+    return byPage;
+  }, [findHits]);
+
+  // Bring the active find match into view, turning the page first in single page mode
+  useEffect(() => {
+    if (!activeFindHit || activeFindHit === scrolledHitRef.current) return;
+
+    if (viewMode === 'single' && activeFindHit.pageNumber !== currentPage) {
+      onPageChange(activeFindHit.pageNumber);
+      return;
+    }
+
+    const container = scrollRef.current;
+    const pageElement = pageElementsRef.current.get(activeFindHit.pageNumber);
+    const layout = pageLayouts?.[activeFindHit.pageNumber - 1];
+    if (!container || !pageElement || !layout) return;
+
+    scrolledHitRef.current = activeFindHit;
+    const hitOffset = getQuadsOffset(getCoordinateQuads(activeFindHit.coordinates, layout), layout, scale, rotation) || 0;
+    container.scrollTo({
+      top: getScrollOffset(container, pageElement) + hitOffset - container.clientHeight / 3,
+      behavior: 'smooth'
+    });
+  }, [activeFindHit, viewMode, currentPage, onPageChange, pageLayouts, scale, rotation]);
+
+  const renderPage = (pageNumber: number, isRendered: boolean) => {
+    const layout = pageLayouts?.[pageNumber - 1];
+    if (!layout) return null;
+
+    return (
+      <PDFPageView
+        key={pageNumber}
+        pageNumber={pageNumber}
+        layout={layout}
+        scale={scale}
+        rotation={rotation}
+        isRendered={isRendered}
+        annotations={annotationsByPage.get(pageNumber) || NO_ANNOTATIONS}
+        findHits={findHitsByPage.get(pageNumber) || NO_FIND_HITS}
+        activeFindHit={activeFindHit}
+        activeTool={activeTool}
+        drawStyle={drawStyle}
+        selectedAnnotationId={selectedAnnotationId}
+        onSelectAnnotation={handleSelectAnnotation}
+        onCreateAnnotation={handleCreateAnnotation}
+        onUpdateAnnotation={onUpdateAnnotation}
+        pulseRequest={pulseRequest}
+        pageRef={element => {
+          if (element) {
+            pageElementsRef.current.set(pageNumber, element);
+          } else {
+            pageElementsRef.current.delete(pageNumber);
+          }
+        }}
+      />
+    );
+  };
 
   // PDF loading options with correct version - memoized to prevent unnecessary reloads
   const pdfOptions = useMemo(() => ({
@@ -131,12 +683,21 @@ export default function PDFViewer({
   }), []);
 
   return (
-    <div className="flex flex-col h-full bg-gray-100">
+    <div ref={viewerRef} className="flex flex-col h-full bg-gray-100">
       {/* PDF Controls */}
       <div className="bg-white border-b border-gray-200 p-3">
         <div className="flex items-center justify-between">
           {/* Navigation Controls */}
           <div className="flex items-center space-x-2">
+            <Button
+              variant={showSidebar ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowSidebar(prev => !prev)}
+              title="Pages and outline"
+            >
+              <PanelLeft className="h-4 w-4" />
+            </Button>
+
             <Button
               variant="outline"
               size="sm"
@@ -158,6 +719,15 @@ export default function PDFViewer({
             >
               <ChevronRight className="h-4 w-4" />
             </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setViewMode(prev => (prev === 'continuous' ? 'single' : 'continuous'))}
+              title={viewMode === 'continuous' ? "Show one page at a time" : "Scroll through all pages"}
+            >
+              {viewMode === 'continuous' ? <File className="h-4 w-4" /> : <Rows3 className="h-4 w-4" />}
+            </Button>
           </div>
 
           {/* Zoom Controls */}
@@ -184,101 +754,214 @@ export default function PDFViewer({
               <Maximize className="h-4 w-4" />
             </Button>
             
-            <Button variant="outline" size="sm" onClick={handleDownload}>
+            <Button variant="outline" size="sm" onClick={handleOpenFind} title="Find in document (Ctrl+F)">
+              <Search className="h-4 w-4" />
+            </Button>
+
+            <Button variant="outline" size="sm" onClick={handleDownload} title="Download original PDF">
               <Download className="h-4 w-4" />
             </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={isExporting}
+              title={conversationId ? "Export with annotations and this conversation" : "Export with annotations"}
+            >
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+            </Button>
           </div>
         </div>
-      </div>
 
-      {/* PDF Content Area */}
-      <div className="flex-1 relative overflow-hidden">
-        <ScrollArea className="h-full">
-          <div className="p-8 flex justify-center">
-            {/* Error State */}
-            {error && (
-              <div className="flex flex-col items-center justify-center h-64 text-center">
-                <AlertCircle className="h-12 w-12 text-red-500 mb-4" />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">Failed to Load PDF</h3>
-                <p className="text-gray-600 mb-4">{error}</p>
-                <Button onClick={() => window.location.reload()}>
-                  Try Again
+        {/* Annotation Tools */}
+        {canAnnotate && (
+          <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-gray-100">
+            <div className="flex items-center space-x-1">
+              {DRAWING_TOOLS.map(({ tool, label, icon: Icon }) => (
+                <Button
+                  key={tool}
+                  variant={activeTool === tool ? "secondary" : "ghost"}
+                  size="sm"
+                  title={label}
+                  onClick={() => handleToolChange(tool)}
+                >
+                  <Icon className="h-4 w-4" />
                 </Button>
-              </div>
-            )}
+              ))}
+            </div>
 
-            {/* Loading State */}
-            {isLoading && !error && (
-              <div className="flex flex-col items-center justify-center h-64">
-                <Loader2 className="h-8 w-8 animate-spin text-blue-600 mb-4" />
-                <p className="text-gray-600">Loading PDF...</p>
-              </div>
-            )}
+            <Separator orientation="vertical" className="h-6" />
 
-            {/* PDF Document */}
-            {!error && document.fileUrl && (
-              <div 
-                className="relative"
-                style={{
-                  transform: `scale(${scale}) rotate(${rotation}deg)`,
-                  transformOrigin: 'center top',
-                  transition: 'transform 0.2s ease-in-out'
-                }}
-              >
-                <PDFDocument
-                  file={document.fileUrl}
-                  onLoadSuccess={onDocumentLoadSuccess}
-                  onLoadError={onDocumentLoadError}
-                  loading={
-                    <div className="flex items-center justify-center h-64">
-                      <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
-                    </div>
-                  }
-                  options={pdfOptions}
-                >
-                  <div className="relative bg-white shadow-lg border border-gray-300">
-                    <Page
-                      pageNumber={currentPage}
-                      onLoadSuccess={onPageLoadSuccess}
-                      loading={
-                        <div className="flex items-center justify-center h-96 w-96">
-                          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
-                        </div>
-                      }
-                      error={
-                        <div className="flex items-center justify-center h-96 w-96 bg-gray-50">
-                          <div className="text-center">
-                            <AlertCircle className="h-8 w-8 text-red-500 mx-auto mb-2" />
-                            <p className="text-gray-600">Failed to load page</p>
-                          </div>
-                        </div>
-                      }
-                    />
-                    
-                    {/* Annotations Overlay */}
-                    <div className="absolute inset-0 pointer-events-none">
-                      <PDFAnnotations
-                        annotations={currentPageAnnotations}
-                        pageNumber={currentPage}
-                        pdfDimensions={pageDimensions}
-                        scale={1.0} // Pass 1.0 since scaling is handled by parent
-                      />
-                    </div>
-                  </div>
-                </PDFDocument>
-              </div>
-            )}
+            <div className="flex items-center space-x-1">
+              {ANNOTATION_COLORS.map(color => (
+                <button
+                  key={color}
+                  title={color}
+                  className={cn(
+                    "h-5 w-5 rounded-full border border-gray-300",
+                    drawStyle.color === color && "ring-2 ring-offset-1 ring-blue-500"
+                  )}
+                  style={{ backgroundColor: color }}
+                  onClick={() => handleStyleChange({ color })}
+                />
+              ))}
+            </div>
 
-            {/* No PDF URL */}
-            {!document.fileUrl && !isLoading && (
-              <div className="flex flex-col items-center justify-center h-64 text-center">
-                <FileText className="h-12 w-12 text-gray-400 mb-4" />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">No PDF Available</h3>
-                <p className="text-gray-600">This document doesn't have a valid PDF file.</p>
-              </div>
+            <label className="flex items-center space-x-2 text-xs text-gray-500">
+              <span>Opacity</span>
+              <input
+                type="range"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={drawStyle.opacity}
+                onChange={(e) => handleStyleChange({ opacity: parseFloat(e.target.value) })}
+                className="w-20"
+              />
+            </label>
+
+            {selectedAnnotation && (
+              <>
+                <Separator orientation="vertical" className="h-6" />
+                <Input
+                  value={noteText}
+                  onChange={(e) => setNoteText(e.target.value)}
+                  onBlur={commitNoteText}
+                  onKeyDown={(e) => e.key === 'Enter' && commitNoteText()}
+                  placeholder="Add a note..."
+                  className="h-8 w-48 text-sm"
+                />
+                <Button variant="ghost" size="sm" title="Delete annotation" onClick={handleDeleteSelected}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </>
             )}
+
+            {/* Legend - AI highlights and annotations from the original PDF can't be edited */}
+            <div className="flex items-center space-x-3 ml-auto text-xs text-gray-500">
+              <span className="flex items-center space-x-1">
+                <span className="inline-block h-3 w-3 rounded-sm bg-red-500/30" />
+                <span>AI highlights</span>
+              </span>
+              <span className="flex items-center space-x-1">
+                <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: drawStyle.color }} />
+                <span>Your annotations</span>
+              </span>
+              {hasImportedAnnotations && (
+                <span className="flex items-center space-x-1">
+                  <span className="inline-block h-3 w-3 rounded-sm border border-dashed border-gray-400" />
+                  <span>From the original PDF</span>
+                </span>
+              )}
+            </div>
           </div>
-        </ScrollArea>
+        )}
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Thumbnails and outline */}
+        {showSidebar && pdf && pageLayouts && (
+          <PDFSidebar
+            documentId={document.id}
+            pdf={pdf}
+            pageLayouts={pageLayouts}
+            rotation={rotation}
+            currentPage={currentPage}
+            annotationsByPage={annotationsByPage}
+            onPageSelect={onPageChange}
+          />
+        )}
+
+        {/* PDF Content Area */}
+        <div
+          ref={contentRef}
+          className="flex-1 min-w-0 relative overflow-hidden"
+          onMouseUp={handleTextSelection}
+          onScrollCapture={() => textSelection && setTextSelection(null)}
+        >
+          {showFind && (
+            <FindBar
+              query={findQuery}
+              matchCount={findHits.length}
+              activeIndex={activeHitIndex}
+              isSearching={isFinding}
+              truncated={findTruncated}
+              focusRequest={findFocusRequest}
+              onQueryChange={setFindQuery}
+              onNext={handleNextHit}
+              onPrevious={handlePreviousHit}
+              onClose={handleCloseFind}
+            />
+          )}
+          {textSelection && (
+            <SelectionPopover
+              position={textSelection.anchor}
+              canHighlight={canAnnotate}
+              canAsk={!!onAskAboutPassage}
+              onHighlight={handleHighlightSelection}
+              onCopy={handleCopySelection}
+              onAsk={handleAskAboutSelection}
+            />
+          )}
+          <div ref={scrollRef} className="h-full overflow-auto" onScroll={handleScroll}>
+            <div className="p-8 flex justify-center">
+              {/* Error State */}
+              {error && (
+                <div className="flex flex-col items-center justify-center h-64 text-center">
+                  <AlertCircle className="h-12 w-12 text-red-500 mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Failed to Load PDF</h3>
+                  <p className="text-gray-600 mb-4">{error}</p>
+                  <Button onClick={() => window.location.reload()}>
+                    Try Again
+                  </Button>
+                </div>
+              )}
+
+              {/* Loading State */}
+              {isLoading && !error && (
+                <div className="flex flex-col items-center justify-center h-64">
+                  <Loader2 className="h-8 w-8 animate-spin text-blue-600 mb-4" />
+                  <p className="text-gray-600">Loading PDF...</p>
+                </div>
+              )}
+
+              {/* PDF Document */}
+              {!error && document.fileUrl && (
+                <div className="relative">
+                  <PDFDocument
+                    file={document.fileUrl}
+                    onLoadSuccess={onDocumentLoadSuccess}
+                    onLoadError={onDocumentLoadError}
+                    loading={
+                      <div className="flex items-center justify-center h-64">
+                        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+                      </div>
+                    }
+                    options={pdfOptions}
+                    className="flex flex-col items-center gap-4"
+                  >
+                    {viewMode === 'continuous'
+                      ? pageOffsets.map((_, index) => renderPage(
+                          index + 1,
+                          index + 1 >= renderedPages.first && index + 1 <= renderedPages.last
+                        ))
+                      : renderPage(currentPage, true)}
+                  </PDFDocument>
+                </div>
+              )}
+
+              {/* No PDF URL */}
+              {!document.fileUrl && !isLoading && (
+                <div className="flex flex-col items-center justify-center h-64 text-center">
+                  <FileText className="h-12 w-12 text-gray-400 mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">No PDF Available</h3>
+                  <p className="text-gray-600">This document doesn't have a valid PDF file.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,48 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Highlighter, Copy, MessageSquare } from "lucide-react";
+
+interface SelectionPopoverProps {
+  position: { x: number; y: number };
+  canHighlight: boolean;
+  canAsk: boolean;
+  onHighlight: () => void;
+  onCopy: () => void;
+  onAsk: () => void;
+}
+
+export default function SelectionPopover({
+  position,
+  canHighlight,
+  canAsk,
+  onHighlight,
+  onCopy,
+  onAsk
+}: SelectionPopoverProps) {
+  return (
+    <div
+      className="absolute z-20 flex items-center space-x-1 rounded-md border border-gray-200 bg-white p-1 shadow-lg"
+      style={{ left: position.x, top: position.y + 6 }}
+      // Keep the text selection alive while clicking the actions
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {canHighlight && (
+        <Button variant="ghost" size="sm" onClick={onHighlight}>
+          <Highlighter className="mr-1 h-4 w-4" />
+          Highlight
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" onClick={onCopy}>
+        <Copy className="mr-1 h-4 w-4" />
+        Copy with citation
+      </Button>
+      {canAsk && (
+        <Button variant="ghost" size="sm" onClick={onAsk}>
+          <MessageSquare className="mr-1 h-4 w-4" />
+          Explain this passage
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -114,6 +114,8 @@ export default function FileUpload({ onUploadComplete, onUploadStart, className
         pageCount: response.data.pageCount,
         uploadedAt: response.data.uploadedAt,
         lastAccessedAt: response.data.uploadedAt,
+        processingStatus: response.data.processingStatus,
+        processingProgress: 0,
         conversationCount: 0,
         hasActiveConversation: false,
         lastMessageAt: null,
@@ -196,7 +198,7 @@ export default function FileUpload({ onUploadComplete, onUploadStart, className
             <div className="space-y-2">
               <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
               <p className="text-sm font-medium text-green-700">Upload successful!</p>
-              <p className="text-xs text-gray-500">Your PDF is ready for AI tutoring</p>
+              <p className="text-xs text-gray-500">Your PDF is being processed for AI tutoring</p>
             </div>
           ) : uploadState.error ? (
             <div className="space-y-4">
@@ -0,0 +1,181 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+
+const coordinatesSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  radius: z.number().optional(),
+  points: z.array(z.object({ x: z.number(), y: z.number() })).optional(),
+  quads: z.array(z.array(z.number()).length(8)).optional(),
+  // Present when quads are in PDF user space
+  pageWidth: z.number().positive().optional(),
+  pageHeight: z.number().positive().optional(),
+  strokes: z.array(z.array(z.object({ x: z.number(), y: z.number() }))).optional(),
+}).passthrough();
+
+/**
+ * Shape of an annotation sent by the client to be stored
+ */
+export const annotationInputSchema = z.object({
+  type: z.enum(["HIGHLIGHT", "CIRCLE", "ARROW", "RECTANGLE", "NOTE", "UNDERLINE", "INK"]),
+  pageNumber: z.number().int().min(1),
+  coordinates: coordinatesSchema,
+  content: z.string().optional(),
+  // Highlights from /api/pdf/search carry the quote they matched
+  excerpt: z.string().optional(),
+  color: z.string().optional(),
+  opacity: z.number().min(0).max(1).optional(),
+});
+
+export type AnnotationInput = z.infer<typeof annotationInputSchema>;
+
+/**
+ * Changes a user can make to one of their own annotations (move, resize, restyle, edit note)
+ */
+export const annotationUpdateSchema = z.object({
+  pageNumber: z.number().int().min(1).optional(),
+  coordinates: coordinatesSchema.optional(),
+  content: z.string().nullable().optional(),
+  color: z.string().optional(),
+  opacity: z.number().min(0).max(1).optional(),
+});
+
+export type AnnotationUpdate = z.infer<typeof annotationUpdateSchema>;
+
+// Include the messages an annotation belongs to
+export const annotationInclude = {
+  messageAnnotations: {
+    select: { messageId: true },
+  },
+} satisfies Prisma.AnnotationInclude;
+
+type AnnotationWithMessages = Prisma.AnnotationGetPayload<{ include: typeof annotationInclude }>;
+
+/**
+ * Flatten the join rows into the list of message ids the client works with
+ */
+export function serializeAnnotation({ messageAnnotations, ...annotation }: AnnotationWithMessages) {
+  return {
+    ...annotation,
+    messageIds: messageAnnotations.map(link => link.messageId),
+  };
+}
+
+/**
+ * Check the signed-in user owns the document being annotated
+ */
+export async function findUserDocument(documentId: string, userId: string) {
+  return prisma.document.findFirst({
+    where: { id: documentId, userId },
+    select: { id: true },
+  });
+}
+
+/**
+ * Annotations a user sees on a document - AI highlights plus the ones they drew themselves
+ * With a conversation, only the AI highlights of that thread's answers, as the tutor page shows them
+ */
+export function visibleAnnotationsWhere(
+  documentId: string,
+  userId: string,
+  conversationId?: string
+): Prisma.AnnotationWhereInput {
+  return {
+    documentId,
+    OR: [
+      {
+        source: "AI",
+        ...(conversationId && {
+          messageAnnotations: { some: { message: { conversationId } } },
+        }),
+      },
+      { userId },
+    ],
+  };
+}
+
+/**
+ * Store annotations for a document
+ * Annotations linked to an assistant message are AI highlights, everything else belongs to the user who drew it
+ */
+export async function createAnnotations(
+  documentId: string,
+  annotations: AnnotationInput[],
+  { messageId, userId }: { messageId?: string; userId: string }
+) {
+  return prisma.$transaction(async (tx) => {
+    const created: AnnotationWithMessages[] = [];
+
+    for (const annotation of annotations) {
+      created.push(await tx.annotation.create({
+        data: {
+          documentId,
+          source: messageId ? "AI" : "USER",
+          userId: messageId ? null : userId,
+          type: annotation.type,
+          pageNumber: annotation.pageNumber,
+          coordinates: annotation.coordinates as Prisma.InputJsonObject,
+          content: annotation.content ?? annotation.excerpt,
+          ...(annotation.color && { color: annotation.color }),
+          ...(annotation.opacity !== undefined && { opacity: annotation.opacity }),
+          ...(messageId && {
+            messageAnnotations: {
+              create: { messageId },
+            },
+          }),
+        },
+        include: annotationInclude,
+      }));
+    }
+
+    return created;
+  });
+}
+
+/**
+ * Remove annotations generated for a conversation's answers before the thread goes away
+ */
+export async function deleteConversationAnnotations(conversationId: string) {
+  await prisma.annotation.deleteMany({
+    where: {
+      messageAnnotations: {
+        some: {
+          message: { conversationId },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Replace the annotations imported from a document's PDF, so re-processing doesn't duplicate them
+ */
+export async function replaceImportedAnnotations(
+  documentId: string,
+  userId: string,
+  annotations: AnnotationInput[]
+) {
+  const [, result] = await prisma.$transaction([
+    prisma.annotation.deleteMany({
+      where: { documentId, source: "IMPORTED" },
+    }),
+    prisma.annotation.createMany({
+      data: annotations.map(annotation => ({
+        documentId,
+        source: "IMPORTED" as const,
+        userId,
+        type: annotation.type,
+        pageNumber: annotation.pageNumber,
+        coordinates: annotation.coordinates as Prisma.InputJsonObject,
+        content: annotation.content,
+        ...(annotation.color && { color: annotation.color }),
+        ...(annotation.opacity !== undefined && { opacity: annotation.opacity }),
+      })),
+    }),
+  ]);
+
+  return result.count;
+}
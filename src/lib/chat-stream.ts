@@ -0,0 +1,138 @@
+import type { ChatResponse } from '@/types/chat';
+
+/**
+ * Helpers for streaming tutor answers over Server-Sent Events
+ *
+ * Event protocol used by POST /api/chat with `stream: true`:
+ * - `token`: { text } - the next piece of the answer
+ * - `reset`: { attempt, reason } - output was malformed and is being regenerated
+ * - `done`:  the same payload the non-streaming JSON response returns
+ * - `error`: { error, details }
+ */
+
+export type ChatStreamEvent =
+  | { event: 'token'; data: { text: string } }
+  | { event: 'reset'; data: { attempt: number; reason: string } }
+  | { event: 'done'; data: ChatResponse }
+  | { event: 'error'; data: { error: string; details?: string } };
+
+/**
+ * Encode a single SSE frame
+ */
+export function encodeServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read SSE frames from a fetch response body and hand each event to the callback
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Frames are separated by a blank line
+    let separatorIndex;
+    while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.substring(0, separatorIndex);
+      buffer = buffer.substring(separatorIndex + 2);
+
+      let eventName = 'message';
+      const dataLines: string[] = [];
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) {
+          eventName = line.substring(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.substring(5).trim());
+        }
+      }
+
+      if (dataLines.length > 0) {
+        onEvent({ event: eventName, data: JSON.parse(dataLines.join('\n')) } as ChatStreamEvent);
+      }
+    }
+  }
+}
+
+/**
+ * Incrementally extract the value of one string field from streamed JSON
+ * e.g. feeding `{"answer": "Hel` then `lo"}` yields "Hel" then "lo" for field "answer"
+ */
+export function createJsonStringFieldExtractor(field: string) {
+  const keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  let raw = '';
+  let state: 'seeking' | 'inside' | 'finished' = 'seeking';
+  let pendingEscape = '';
+
+  const decodeEscape = (escape: string): string => {
+    switch (escape[1]) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'u': return String.fromCharCode(parseInt(escape.substring(2), 16));
+      default: return escape[1];
+    }
+  };
+
+  const consume = (text: string): string => {
+    let output = '';
+
+    for (const char of text) {
+      if (pendingEscape) {
+        pendingEscape += char;
+        // \uXXXX needs 6 characters, every other escape needs 2
+        const expectedLength = pendingEscape[1] === 'u' ? 6 : 2;
+        if (pendingEscape.length === expectedLength) {
+          output += decodeEscape(pendingEscape);
+          pendingEscape = '';
+        }
+      } else if (char === '\\') {
+        pendingEscape = char;
+      } else if (char === '"') {
+        state = 'finished';
+        break;
+      } else {
+        output += char;
+      }
+    }
+
+    return output;
+  };
+
+  return {
+    /**
+     * Feed the next chunk of model output, returns newly decoded field text
+     */
+    push(chunk: string): string {
+      if (state === 'finished') return '';
+
+      if (state === 'seeking') {
+        raw += chunk;
+        const match = keyPattern.exec(raw);
+        if (!match) return '';
+
+        state = 'inside';
+        const rest = raw.substring(match.index + match[0].length);
+        raw = '';
+        return consume(rest);
+      }
+
+      return consume(chunk);
+    },
+  };
+}
@@ -0,0 +1,238 @@
+import { Document, type DocumentInterface } from "@langchain/core/documents";
+
+export interface ChunkProvenance {
+  // 1-based pages the chunk starts and ends on
+  startPage: number;
+  endPage: number;
+  // Character offsets within the start page and the end page
+  startOffset: number;
+  endOffset: number;
+  // Chunk-relative offsets where each page after startPage begins
+  pageBreaks: number[];
+  // Closest heading at or before the start of the chunk
+  sectionHeading: string | null;
+}
+
+interface ChunkOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+// Preferred places to end a chunk, best first
+const BREAK_SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+// Pages are joined with this so a chunk can never glue two pages' words together
+const PAGE_SEPARATOR = "\n\n";
+
+const MAX_HEADING_LENGTH = 80;
+
+/**
+ * Recognise a heading line in markdown (LlamaParse) or plain text (MuPDF) output
+ */
+function parseHeading(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) {
+    return null;
+  }
+
+  const markdownHeading = /^#{1,6}\s+(.+?)\s*#*$/.exec(trimmed);
+  if (markdownHeading) {
+    return markdownHeading[1].replace(/\*\*/g, "").trim();
+  }
+
+  // "Chapter 3", "Section 2.1 Methods", "4.2 Results"
+  if (/^(chapter|section|part)\s+[\dIVXLC]+\b/i.test(trimmed)) {
+    return trimmed;
+  }
+  if (/^\d+(\.\d+)*\.?\s+[A-Z][^.!?]*$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  // Short all-caps lines such as "INTRODUCTION"
+  if (/^[A-Z][A-Z0-9 ,:&'-]{3,}$/.test(trimmed) && /[A-Z]{3}/.test(trimmed)) {
+    return trimmed;
+  }
+
+  return null;
+}
+
+/**
+ * Find where a chunk ending at `end` should actually stop
+ */
+function findChunkEnd(text: string, start: number, end: number): number {
+  if (end >= text.length) {
+    return text.length;
+  }
+
+  // Don't let a separator shrink the chunk below half its size
+  const minEnd = start + Math.floor((end - start) / 2);
+  for (const separator of BREAK_SEPARATORS) {
+    const index = text.lastIndexOf(separator, end - separator.length);
+    if (index >= minEnd) {
+      return index + separator.length;
+    }
+  }
+
+  return end;
+}
+
+/**
+ * Index of the last entry in a sorted array that is <= value
+ */
+function findLastAtOrBefore(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] <= value) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split page documents into overlapping chunks that remember where they came from
+ * Unlike CharacterTextSplitter, a chunk that straddles pages keeps both page numbers
+ */
+export function chunkPages(pages: Document[], options: ChunkOptions = {}): Document[] {
+  const { chunkSize = 1000, chunkOverlap = 200 } = options;
+
+  // Lay all pages out in one string and remember where each begins
+  const pageStarts: number[] = [];
+  const pageNumbers: number[] = [];
+  let text = "";
+
+  pages.forEach((page, index) => {
+    if (index > 0) {
+      text += PAGE_SEPARATOR;
+    }
+    pageStarts.push(text.length);
+    pageNumbers.push(typeof page.metadata?.page === "number" ? page.metadata.page : index + 1);
+    text += page.pageContent;
+  });
+
+  // Headings with their position in the combined text
+  const headingOffsets: number[] = [];
+  const headings: string[] = [];
+  const linePattern = /[^\n]+/g;
+  let lineMatch;
+  while ((lineMatch = linePattern.exec(text)) !== null) {
+    const heading = parseHeading(lineMatch[0]);
+    if (heading) {
+      headingOffsets.push(lineMatch.index);
+      headings.push(heading);
+    }
+  }
+
+  const source = pages[0]?.metadata?.source;
+  const chunks: Document[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const end = findChunkEnd(text, start, start + chunkSize);
+
+    // Trim whitespace without losing track of offsets
+    let contentStart = start;
+    let contentEnd = end;
+    while (contentStart < contentEnd && /\s/.test(text[contentStart])) contentStart++;
+    while (contentEnd > contentStart && /\s/.test(text[contentEnd - 1])) contentEnd--;
+
+    if (contentEnd > contentStart) {
+      const startPageIndex = Math.max(0, findLastAtOrBefore(pageStarts, contentStart));
+      const endPageIndex = Math.max(0, findLastAtOrBefore(pageStarts, contentEnd - 1));
+
+      const pageBreaks = pageStarts
+        .slice(startPageIndex + 1, endPageIndex + 1)
+        .map(pageStart => pageStart - contentStart);
+
+      // Prefer the heading in effect at the chunk start, else the first one inside it
+      const headingIndex = findLastAtOrBefore(headingOffsets, contentStart);
+      const firstInside = headingOffsets.findIndex(offset => offset >= contentStart && offset < contentEnd);
+      const sectionHeading = headingIndex >= 0
+        ? headings[headingIndex]
+        : firstInside >= 0 ? headings[firstInside] : null;
+
+      const provenance: ChunkProvenance = {
+        startPage: pageNumbers[startPageIndex],
+        endPage: pageNumbers[endPageIndex],
+        startOffset: contentStart - pageStarts[startPageIndex],
+        endOffset: contentEnd - pageStarts[endPageIndex],
+        pageBreaks,
+        sectionHeading,
+      };
+
+      chunks.push(new Document({
+        pageContent: text.substring(contentStart, contentEnd),
+        metadata: {
+          source,
+          // Kept for code that only knows about a single page
+          page: provenance.startPage,
+          ...provenance,
+        },
+      }));
+    }
+
+    if (end >= text.length) {
+      break;
+    }
+
+    // Step back for overlap, snapping forward to a word boundary
+    let nextStart = Math.max(end - chunkOverlap, start + 1);
+    const wordBoundary = text.indexOf(" ", nextStart);
+    if (wordBoundary !== -1 && wordBoundary < end) {
+      nextStart = wordBoundary + 1;
+    }
+    start = nextStart;
+  }
+
+  return chunks;
+}
+
+/**
+ * DocumentChunk columns describing where a chunk came from in the PDF
+ */
+export function chunkProvenanceColumns(chunk: DocumentInterface) {
+  const metadata = chunk.metadata || {};
+  return {
+    pageNumber: metadata.startPage ?? metadata.page ?? 0,
+    startPage: metadata.startPage ?? null,
+    endPage: metadata.endPage ?? null,
+    startOffset: metadata.startOffset ?? null,
+    endOffset: metadata.endOffset ?? null,
+    sectionHeading: metadata.sectionHeading ?? null,
+  };
+}
+
+/**
+ * Page a passage of a chunk falls on, using the chunk's recorded page breaks
+ */
+export function findPageInChunk(chunk: Document, passage: string): number | null {
+  const { startPage, pageBreaks, page } = chunk.metadata || {};
+  if (typeof startPage !== "number" || !Array.isArray(pageBreaks)) {
+    return typeof page === "number" ? page : null;
+  }
+
+  // Match word by word so line breaks in the chunk don't matter
+  const words = passage.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return startPage;
+  }
+  const pattern = new RegExp(
+    words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("\\s+"),
+    "i"
+  );
+  const match = pattern.exec(chunk.pageContent);
+  if (!match) {
+    return startPage;
+  }
+
+  const pagesCrossed = (pageBreaks as number[]).filter(offset => offset <= match.index).length;
+  return startPage + pagesCrossed;
+}
@@ -0,0 +1,45 @@
+import type { Document } from "@langchain/core/documents";
+import { MIN_MATCH_SCORE, locateExcerpts, scoreExcerpt, type PageText } from "./excerpt-locator";
+import type { SourceCitation } from "./qa-system";
+
+// Below this a quote counts as not found - the same bar the excerpt locator highlights at
+const MIN_SUPPORTED_SCORE = MIN_MATCH_SCORE;
+
+/**
+ * Check every cited quote against the chunks retrieved for the answer, then the PDF's text
+ * Quotes that match neither are flagged so the UI can warn instead of highlighting them
+ * Reading the PDF is slow on a cold cache, so `loadPages` only runs for quotes the chunks don't back,
+ * and may resolve to null when the PDF can't be read
+ */
+export async function verifyCitations(
+  citations: SourceCitation[],
+  sourceDocuments: Document[],
+  loadPages: () => Promise<PageText[] | null>
+) {
+  const chunkScores = citations.map(citation => {
+    // Models sometimes cite the wrong chunk id, so fall back to the best retrieved chunk
+    const citedChunk = sourceDocuments.find(doc => doc.metadata.chunkId === citation.chunkId);
+    return citedChunk
+      ? scoreExcerpt(citation.quote, citedChunk.pageContent)
+      : Math.max(0, ...sourceDocuments.map(doc => scoreExcerpt(citation.quote, doc.pageContent)));
+  });
+
+  const unmatched = citations.filter((_, index) => chunkScores[index] < MIN_SUPPORTED_SCORE);
+  const pages = unmatched.length > 0 ? await loadPages() : null;
+  const pageMatches = pages ? locateExcerpts(pages, unmatched.map(citation => citation.quote)) : [];
+
+  return citations.map((citation, index) => {
+    const chunkScore = chunkScores[index];
+    const unmatchedIndex = unmatched.indexOf(citation);
+    const pageScore = pages && unmatchedIndex !== -1 ? pageMatches[unmatchedIndex]?.score ?? 0 : null;
+
+    return {
+      ...citation,
+      verification: {
+        chunkScore,
+        pageScore,
+        supported: Math.max(chunkScore, pageScore ?? 0) >= MIN_SUPPORTED_SCORE,
+      },
+    };
+  });
+}
@@ -0,0 +1,103 @@
+import { AIMessage, HumanMessage, type BaseMessage } from "@langchain/core/messages";
+import { prisma } from "./db";
+import { initializeLanguageModel } from "./language-model";
+import { CONDENSE_QUESTION_PROMPT } from "./prompts";
+
+// Rough token budget for prior turns included in the answer prompt
+export const HISTORY_TOKEN_BUDGET = 1500;
+
+// Never look further back than this many messages
+const MAX_HISTORY_MESSAGES = 12;
+
+export interface ChatTurn {
+  role: "USER" | "ASSISTANT";
+  content: string;
+}
+
+/**
+ * Approximate token count (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Load the most recent turns of a stored conversation, oldest first
+ */
+export async function loadConversationHistory(conversationId: string): Promise<ChatTurn[]> {
+  const messages = await prisma.message.findMany({
+    where: {
+      conversationId,
+      role: { in: ["USER", "ASSISTANT"] },
+    },
+    orderBy: { timestamp: "desc" },
+    take: MAX_HISTORY_MESSAGES,
+    select: { role: true, content: true },
+  });
+
+  return messages.reverse() as ChatTurn[];
+}
+
+/**
+ * Keep the newest turns that fit in the token budget
+ * Long messages are truncated rather than dropping everything before them
+ */
+export function selectHistoryWindow(history: ChatTurn[], tokenBudget = HISTORY_TOKEN_BUDGET): ChatTurn[] {
+  const window: ChatTurn[] = [];
+  let remaining = tokenBudget;
+
+  for (let i = history.length - 1; i >= 0 && remaining > 0; i--) {
+    const turn = history[i];
+    const tokens = estimateTokens(turn.content);
+
+    if (tokens <= remaining) {
+      window.unshift(turn);
+      remaining -= tokens;
+    } else {
+      // Include the tail of the turn that still fits, then stop
+      const keepChars = remaining * 4;
+      if (keepChars > 200) {
+        window.unshift({ ...turn, content: `...${turn.content.slice(-keepChars)}` });
+      }
+      break;
+    }
+  }
+
+  return window;
+}
+
+/**
+ * Convert stored turns into chat messages for a prompt
+ */
+export function toChatMessages(history: ChatTurn[]): BaseMessage[] {
+  return history.map(turn =>
+    turn.role === "USER" ? new HumanMessage(turn.content) : new AIMessage(turn.content)
+  );
+}
+
+/**
+ * Rewrite a follow-up question into a standalone query for retrieval
+ * e.g. "can you explain that more simply?" -> "Explain how photosynthesis works in simple terms"
+ */
+export async function condenseQuestion(history: ChatTurn[], question: string): Promise<string> {
+  if (history.length === 0) {
+    return question;
+  }
+
+  try {
+    const chatHistory = history
+      .map(turn => `${turn.role === "USER" ? "Student" : "Tutor"}: ${turn.content}`)
+      .join("\n");
+
+    const prompt = await CONDENSE_QUESTION_PROMPT.format({ chat_history: chatHistory, question });
+    const result = await initializeLanguageModel().invoke(prompt);
+    const standalone = typeof result.content === "string" ? result.content.trim() : "";
+
+    console.log(`Condensed follow-up question: "${question}" -> "${standalone}"`);
+    return standalone || question;
+  } catch (error) {
+    // Retrieval with the raw question is still better than failing the request
+    console.error('Error condensing question, using original:', error);
+    return question;
+  }
+}
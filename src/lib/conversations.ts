@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import type { Document } from '@langchain/core/documents';
+import { prisma } from './db';
+
+/**
+ * What the viewer may write back onto a stored answer once its highlights are resolved
+ * Content, citations and sources come from /api/chat and can't be changed by the client
+ */
+export const messageHighlightsUpdateSchema = z.object({
+  metadata: z.object({
+    pageMappings: z.array(z.object({
+      excerpt: z.string(),
+      pages: z.array(z.number().int().min(1)),
+    })).optional(),
+    citationMarkers: z.array(z.object({
+      number: z.number().int().min(1),
+      quote: z.string(),
+      pageNumber: z.number().int().min(1),
+      annotationIds: z.array(z.string()),
+      supported: z.boolean().optional(),
+    })).optional(),
+  }).strict(),
+}).strict();
+
+/**
+ * Find a conversation owned by the given user (optionally scoped to a document)
+ */
+export async function findUserConversation(
+  conversationId: string,
+  userId: string,
+  documentId?: string
+) {
+  return prisma.conversation.findFirst({
+    where: {
+      id: conversationId,
+      userId,
+      ...(documentId && { documentId }),
+    },
+  });
+}
+
+/**
+ * Strip LangChain documents down to plain JSON so they can be stored in message metadata
+ */
+export function serializeSourceDocuments(sourceDocuments: Document[] = []) {
+  return sourceDocuments.map(doc => {
+    const metadata = doc.metadata || {};
+    return {
+      pageContent: doc.pageContent,
+      metadata,
+      // Page provenance recorded by the chunker, so clients don't have to re-search the PDF
+      startPage: metadata.startPage ?? metadata.page ?? null,
+      endPage: metadata.endPage ?? metadata.startPage ?? metadata.page ?? null,
+      startOffset: metadata.startOffset ?? null,
+      endOffset: metadata.endOffset ?? null,
+      sectionHeading: metadata.sectionHeading ?? null,
+    };
+  });
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Derive a thread title from the first question asked in it
+ */
+export function generateConversationTitle(question: string): string {
+  const normalized = question.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= MAX_TITLE_LENGTH) {
+    return normalized;
+  }
+
+  // Cut at the last word boundary that fits
+  const truncated = normalized.substring(0, MAX_TITLE_LENGTH);
+  const lastSpace = truncated.lastIndexOf(' ');
+  return `${(lastSpace > 20 ? truncated.substring(0, lastSpace) : truncated).trim()}...`;
+}
+
+// A stored thread, or the user and document a new thread is started for
+export type ConversationTarget =
+  | { id: string; title: string | null }
+  | { userId: string; documentId: string };
+
+/**
+ * Store a question and its answer as USER and ASSISTANT messages
+ * A new thread is only created together with its first turn, so failed answers leave no empty threads
+ */
+export async function saveConversationTurn(
+  target: ConversationTarget,
+  question: string,
+  answer: string,
+  metadata: Prisma.InputJsonObject,
+  questionMetadata?: Prisma.InputJsonObject
+) {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const conversation = 'id' in target
+      ? target
+      : await tx.conversation.create({
+          data: { userId: target.userId, documentId: target.documentId },
+        });
+    const conversationId = conversation.id;
+
+    const userMessage = await tx.message.create({
+      data: {
+        conversationId,
+        role: 'USER',
+        content: question,
+        metadata: questionMetadata,
+        timestamp: now,
+      },
+    });
+    const assistantMessage = await tx.message.create({
+      data: {
+        conversationId,
+        role: 'ASSISTANT',
+        content: answer,
+        metadata,
+        // Keep the answer strictly after the question when ordering by timestamp
+        timestamp: new Date(now.getTime() + 1),
+      },
+    });
+    await tx.conversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageAt: now,
+        // Asking in an archived thread brings it back
+        archivedAt: null,
+        // Auto-title untitled threads from their first question
+        ...(!conversation.title && { title: generateConversationTitle(question) }),
+      },
+    });
+
+    return { conversationId, userMessage, assistantMessage };
+  });
+}
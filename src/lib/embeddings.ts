@@ -1,10 +1,31 @@
 import { OpenAIEmbeddings } from "@langchain/openai";
 
+// Model used for both stored chunk vectors and query vectors - they must match
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+
+// Vector length of each supported model, the pgvector column is sized from it
+const EMBEDDING_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+/**
+ * Vector length of EMBEDDING_MODEL
+ */
+export function getEmbeddingDimensions(): number {
+  const dimensions = EMBEDDING_DIMENSIONS[EMBEDDING_MODEL];
+  if (!dimensions) {
+    throw new Error(`Unknown embedding dimensions for "${EMBEDDING_MODEL}", add it to EMBEDDING_DIMENSIONS`);
+  }
+  return dimensions;
+}
+
 // Get OpenAI embeddings
 
 export function getEmbeddings() {
   return new OpenAIEmbeddings({
     apiKey: process.env.OPENAI_API_KEY!,
-    model: "text-embedding-3-small" 
+    model: EMBEDDING_MODEL 
   });
 }
\ No newline at end of file
@@ -0,0 +1,310 @@
+import * as mupdf from "mupdf";
+import { getPageView } from "./mupdf-parse";
+import { openDocumentPdf } from "./pdf-cache";
+import { toHighlightCoordinates, type PageView } from "./page-geometry";
+import type { PdfSearchHit } from "./pdf-search";
+
+/**
+ * Searchable text of one page
+ * Only letters and digits are kept, lowercased and without accents or ligatures, so excerpts
+ * match whatever the whitespace, punctuation or hyphenation at line ends
+ */
+export interface PageText {
+  pageNumber: number;
+  pageView: PageView;
+  text: string;
+  // For each character of `text`, the glyph it came from
+  glyphs: Int32Array;
+  // Page space quad of every glyph, 8 numbers each
+  glyphQuads: Float32Array;
+  // Line of every glyph, so a match gets one quad per line
+  glyphLines: Int32Array;
+}
+
+export interface ExcerptMatch {
+  // One highlight per page the excerpt covers, in page order
+  highlights: PdfSearchHit[];
+  // 1 for an exact match, down to MIN_MATCH_SCORE as more characters differ
+  score: number;
+}
+
+// Where one page's text sits inside text joined across a page break
+interface WindowPart {
+  page: PageText;
+  // Start of the part in the joined text, and the page text offset it starts from
+  offset: number;
+  pageOffset: number;
+  length: number;
+}
+
+// Share of an excerpt's characters that must match for it to count as found
+export const MIN_MATCH_SCORE = 0.8;
+// Excerpts shorter than this (after normalizing) match too many places to be useful
+const MIN_EXCERPT_LENGTH = 8;
+// Pages sharing the most text with an excerpt are the only ones aligned against it
+const GRAM_LENGTH = 8;
+const MAX_CANDIDATE_PAGES = 3;
+// Documents whose page text is kept in memory, least recently used are dropped first
+const MAX_CACHED_DOCUMENTS = 4;
+
+const pageTextCache = new Map<string, Promise<PageText[]>>();
+
+/**
+ * Drop markdown syntax whose text never appears on the page - link targets, images and HTML tags
+ * Emphasis, headings and table pipes are punctuation, which normalizeText removes anyway
+ */
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<\/?[a-z][^>]*>/gi, " ")
+    // Table separator rows like |---|:--:|
+    .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/gm, " ");
+}
+
+/**
+ * Reduce text to lowercase letters and digits, splitting ligatures and dropping accents
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function extractPageText(page: mupdf.PDFPage, pageNumber: number): PageText {
+  const structuredText = page.toStructuredText();
+  let text = "";
+  const glyphs: number[] = [];
+  const glyphQuads: number[] = [];
+  const glyphLines: number[] = [];
+  let line = -1;
+
+  structuredText.walk({
+    beginLine() {
+      line++;
+    },
+    onChar(c, _origin, _font, _size, quad) {
+      const normalized = normalizeText(c);
+      if (!normalized) return;
+
+      const glyph = glyphLines.length;
+      glyphQuads.push(...quad);
+      glyphLines.push(line);
+      text += normalized;
+      for (let i = 0; i < normalized.length; i++) {
+        glyphs.push(glyph);
+      }
+    },
+  });
+
+  structuredText.destroy();
+  return {
+    pageNumber,
+    pageView: getPageView(page),
+    text,
+    glyphs: Int32Array.from(glyphs),
+    glyphQuads: Float32Array.from(glyphQuads),
+    glyphLines: Int32Array.from(glyphLines),
+  };
+}
+
+function extractPageTexts(doc: mupdf.Document): PageText[] {
+  const pages: PageText[] = [];
+  for (let pageIndex = 0; pageIndex < doc.countPages(); pageIndex++) {
+    const page = doc.loadPage(pageIndex) as mupdf.PDFPage;
+    pages.push(extractPageText(page, pageIndex + 1));
+    page.destroy();
+  }
+  return pages;
+}
+
+/**
+ * Searchable text of every page of a document, extracted once and kept in memory
+ * A re-uploaded file has a new URL, so it never reuses the old file's text
+ */
+export function getDocumentPageTexts(document: { id: string; fileUrl: string }): Promise<PageText[]> {
+  const cacheKey = `${document.id}:${document.fileUrl}`;
+  const cached = pageTextCache.get(cacheKey);
+  if (cached) {
+    // Move to the back so it is evicted last
+    pageTextCache.delete(cacheKey);
+    pageTextCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const pages = openDocumentPdf(document).then(extractPageTexts);
+  // Failed extractions are retried on the next call
+  pages.catch(() => pageTextCache.delete(cacheKey));
+
+  pageTextCache.set(cacheKey, pages);
+  if (pageTextCache.size > MAX_CACHED_DOCUMENTS) {
+    pageTextCache.delete(pageTextCache.keys().next().value!);
+  }
+  return pages;
+}
+
+/**
+ * Where the best approximate occurrence of `needle` in `haystack` ends (Sellers' algorithm)
+ * Ties go to the earliest occurrence
+ */
+function findBestEnd(needle: string, haystack: string): { index: number; edits: number } {
+  const m = needle.length;
+  // Edits to match the first i characters of the needle, ending at the current haystack position
+  let previous = Int32Array.from({ length: m + 1 }, (_, i) => i);
+  let current = new Int32Array(m + 1);
+  let best = { index: 0, edits: m };
+
+  for (let j = 1; j <= haystack.length; j++) {
+    const c = haystack.charCodeAt(j - 1);
+    current[0] = 0;
+    for (let i = 1; i <= m; i++) {
+      const substitution = previous[i - 1] + (needle.charCodeAt(i - 1) === c ? 0 : 1);
+      current[i] = Math.min(substitution, previous[i] + 1, current[i - 1] + 1);
+    }
+    if (current[m] < best.edits) {
+      best = { index: j, edits: current[m] };
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return best;
+}
+
+function reverse(text: string): string {
+  return text.split("").reverse().join("");
+}
+
+/**
+ * Span of `haystack` closest to `needle`, null when it would take more than `maxEdits` edits
+ */
+function alignText(needle: string, haystack: string, maxEdits: number): { start: number; end: number; edits: number } | null {
+  const exact = haystack.indexOf(needle);
+  if (exact !== -1) {
+    return { start: exact, end: exact + needle.length, edits: 0 };
+  }
+
+  const end = findBestEnd(needle, haystack);
+  if (end.edits > maxEdits) return null;
+
+  // Aligning the reversed strings back from the end finds where the span starts
+  const window = haystack.slice(Math.max(0, end.index - needle.length - maxEdits), end.index);
+  const length = findBestEnd(reverse(needle), reverse(window)).index;
+  return { start: end.index - length, end: end.index, edits: end.edits };
+}
+
+/**
+ * How closely `excerpt` appears anywhere in `text`, from 0 to 1 (an exact match)
+ * Uses the same normalization as locating excerpts on the page
+ */
+export function scoreExcerpt(excerpt: string, text: string): number {
+  const needle = normalizeText(stripMarkdown(excerpt));
+  if (!needle) return 0;
+
+  const haystack = normalizeText(stripMarkdown(text));
+  if (haystack.includes(needle)) return 1;
+  return Math.max(0, 1 - findBestEnd(needle, haystack).edits / needle.length);
+}
+
+/**
+ * Pages most likely to contain `needle`, by how many of its fixed-length pieces they contain
+ */
+function findCandidatePages(needle: string, pages: PageText[]): PageText[] {
+  const grams: string[] = [];
+  for (let i = 0; i + GRAM_LENGTH <= needle.length; i += GRAM_LENGTH) {
+    grams.push(needle.slice(i, i + GRAM_LENGTH));
+  }
+
+  return pages
+    .map(page => ({ page, hits: grams.filter(gram => page.text.includes(gram)).length }))
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, MAX_CANDIDATE_PAGES)
+    .map(({ page }) => page);
+}
+
+/**
+ * One quad per line covering the glyphs behind `text[start, end)`, in page space
+ */
+function getSpanQuads(page: PageText, start: number, end: number): number[][] {
+  const quads: number[][] = [];
+  const firstGlyph = page.glyphs[start];
+  const lastGlyph = page.glyphs[end - 1];
+  const quadAt = (glyph: number) => page.glyphQuads.subarray(glyph * 8, glyph * 8 + 8);
+
+  let lineStart = firstGlyph;
+  for (let glyph = firstGlyph; glyph <= lastGlyph; glyph++) {
+    if (glyph === lastGlyph || page.glyphLines[glyph + 1] !== page.glyphLines[glyph]) {
+      const first = quadAt(lineStart);
+      const last = quadAt(glyph);
+      // Left edge of the line's first glyph, right edge of its last
+      quads.push([first[0], first[1], last[2], last[3], first[4], first[5], last[6], last[7]]);
+      lineStart = glyph + 1;
+    }
+  }
+
+  return quads;
+}
+
+/**
+ * A page's text with enough of its neighbours on either side for a match running over a page break
+ */
+function getPageWindow(pages: PageText[], page: PageText, reach: number): { text: string; parts: WindowPart[] } {
+  const previous = pages[page.pageNumber - 2];
+  const next = pages[page.pageNumber];
+  const parts: WindowPart[] = [];
+  let text = "";
+
+  const addPart = (part: PageText | undefined, pageOffset: number, pageEnd: number) => {
+    if (!part || pageEnd <= pageOffset) return;
+    parts.push({ page: part, offset: text.length, pageOffset, length: pageEnd - pageOffset });
+    text += part.text.slice(pageOffset, pageEnd);
+  };
+
+  addPart(previous, Math.max(0, (previous?.text.length || 0) - reach), previous?.text.length || 0);
+  addPart(page, 0, page.text.length);
+  addPart(next, 0, Math.min(reach, next?.text.length || 0));
+  return { text, parts };
+}
+
+/**
+ * Best match of each excerpt in the document, null for excerpts that can't be found
+ * Matching ignores case, whitespace, punctuation, hyphenation, ligatures and markdown, tolerates
+ * small differences and follows excerpts over a page break
+ */
+export function locateExcerpts(pages: PageText[], excerpts: string[]): Array<ExcerptMatch | null> {
+  return excerpts.map(excerpt => {
+    const needle = normalizeText(stripMarkdown(excerpt));
+    if (needle.length < MIN_EXCERPT_LENGTH) return null;
+
+    const maxEdits = Math.floor(needle.length * (1 - MIN_MATCH_SCORE));
+    let best: { parts: WindowPart[]; start: number; end: number; edits: number } | null = null;
+
+    for (const page of findCandidatePages(needle, pages)) {
+      const window = getPageWindow(pages, page, needle.length + maxEdits);
+      const alignment = alignText(needle, window.text, best ? best.edits - 1 : maxEdits);
+      if (alignment && (!best || alignment.edits < best.edits)) {
+        best = { parts: window.parts, ...alignment };
+        if (best.edits === 0) break;
+      }
+    }
+
+    if (!best) return null;
+    const { start, end } = best;
+
+    // Split the span where it crosses from one page to the next
+    const highlights = best.parts
+      .filter(part => part.offset < end && part.offset + part.length > start)
+      .map(part => {
+        const pageStart = Math.max(start, part.offset) - part.offset + part.pageOffset;
+        const pageEnd = Math.min(end, part.offset + part.length) - part.offset + part.pageOffset;
+        return {
+          pageNumber: part.page.pageNumber,
+          coordinates: toHighlightCoordinates(getSpanQuads(part.page, pageStart, pageEnd), part.page.pageView),
+        };
+      });
+
+    return { highlights, score: 1 - best.edits / needle.length };
+  });
+}
@@ -0,0 +1,333 @@
+import { z } from "zod";
+import { Document } from "@langchain/core/documents";
+import type { VectorStore } from "@langchain/core/vectorstores";
+import { cosineSimilarity } from "@langchain/core/utils/math";
+import { prisma } from "./db";
+import { getEmbeddings } from "./embeddings";
+import { initializeLanguageModel } from "./language-model";
+import { RERANK_PROMPT } from "./prompts";
+import { describeQuestionScope, isChunkInScope } from "./question-scope";
+import type { QuestionScope } from "@/types/chat";
+
+/**
+ * Per-request retrieval settings, every field optional in the request body
+ */
+export const retrievalOptionsSchema = z.object({
+  // Chunks handed to the model
+  k: z.number().int().min(1).max(12).default(4),
+  // Candidates taken from each of vector and keyword search before fusing
+  fetchK: z.number().int().min(1).max(50).default(20),
+  // How much each ranking counts in the fusion, 0 turns that search off
+  vectorWeight: z.number().min(0).max(10).default(1),
+  keywordWeight: z.number().min(0).max(10).default(1),
+  // Let the language model re-score the fused candidates
+  rerank: z.boolean().default(false),
+}).refine(options => options.vectorWeight > 0 || options.keywordWeight > 0, {
+  message: "At least one of vectorWeight and keywordWeight must be above 0",
+});
+
+export type RetrievalOptions = z.infer<typeof retrievalOptionsSchema>;
+
+export interface DocumentRetriever {
+  // Chunks returned when retrieve is called without a k
+  k: number;
+  retrieve(query: string, k?: number): Promise<Document[]>;
+}
+
+// Dampens the lead of top ranks in reciprocal rank fusion, 60 is the value from the original paper
+const RRF_K = 60;
+// BM25 term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Fused candidates the reranker sees, per chunk that is finally kept
+const RERANK_POOL_FACTOR = 3;
+// Documents whose keyword index is kept in memory, least recently used are dropped first
+const MAX_CACHED_INDEXES = 8;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "does", "for", "from", "how", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "what", "when", "where", "which", "who",
+  "why", "with",
+]);
+
+const rerankSchema = z.object({
+  scores: z.array(z.object({
+    passage: z.number().int().describe("The passage number"),
+    score: z.number().min(0).max(10).describe("How useful the passage is, from 0 to 10"),
+  })),
+});
+
+/**
+ * Search terms of a text - keeps identifiers like "3.2", "H2O" or "x-ray" whole and adds their parts
+ */
+function tokenize(text: string): string[] {
+  const words = text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+(?:[.\-_][\p{L}\p{N}]+)*/gu) || [];
+
+  return words.flatMap(word => {
+    const parts = word.split(/[.\-_]/);
+    return parts.length > 1 ? [word, ...parts] : [word];
+  }).filter(term => !STOP_WORDS.has(term));
+}
+
+/**
+ * Term statistics of a set of chunks, built once and reused for every query
+ */
+interface Bm25Index {
+  documents: Document[];
+  termCounts: Array<{ counts: Map<string, number>; length: number }>;
+  // Chunks containing each term
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+const keywordIndexCache = new Map<string, Promise<Bm25Index>>();
+
+function buildBm25Index(documents: Document[]): Bm25Index {
+  const documentFrequencies = new Map<string, number>();
+  const termCounts = documents.map(doc => {
+    const counts = new Map<string, number>();
+    const terms = tokenize(doc.pageContent);
+    terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    counts.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+    return { counts, length: terms.length };
+  });
+  const averageLength = termCounts.reduce((sum, { length }) => sum + length, 0) / documents.length || 1;
+
+  return { documents, termCounts, documentFrequencies, averageLength };
+}
+
+/**
+ * Rank indexed chunks for a query with Okapi BM25, best first, leaving out chunks sharing no terms
+ */
+function rankWithBm25(index: Bm25Index, query: string): Document[] {
+  const { documents, termCounts, documentFrequencies, averageLength } = index;
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) return [];
+
+  const inverseFrequencies = queryTerms.map(term => {
+    const containing = documentFrequencies.get(term) || 0;
+    return Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+  });
+
+  return termCounts
+    .map(({ counts, length }, index) => {
+      const score = queryTerms.reduce((sum, term, termIndex) => {
+        const frequency = counts.get(term) || 0;
+        const saturation = (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        return sum + inverseFrequencies[termIndex] * saturation;
+      }, 0);
+      return { document: documents[index], score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ document }) => document);
+}
+
+/**
+ * Merge rankings by summing weight / (RRF_K + rank) for every ranking a chunk appears in
+ */
+function fuseRankings(rankings: Array<{ documents: Document[]; weight: number }>): Document[] {
+  const fused = new Map<string, { document: Document; score: number }>();
+
+  rankings.forEach(({ documents, weight }) => {
+    documents.forEach((document, rank) => {
+      const chunkId = document.metadata.chunkId;
+      const entry = fused.get(chunkId) || { document, score: 0 };
+      entry.score += weight / (RRF_K + rank + 1);
+      fused.set(chunkId, entry);
+    });
+  });
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ document }) => document);
+}
+
+/**
+ * Reorder candidates by the language model's judgement of their relevance
+ * Keeps the fused order if the model call fails
+ */
+async function rerankDocuments(query: string, documents: Document[]): Promise<Document[]> {
+  try {
+    const prompt = await RERANK_PROMPT.format({
+      question: query,
+      passages: documents.map((doc, index) => `[${index + 1}]\n${doc.pageContent}`).join("\n\n"),
+    });
+    const { scores } = await initializeLanguageModel().withStructuredOutput(rerankSchema).invoke(prompt);
+
+    const scoreByIndex = new Map(scores.map(({ passage, score }) => [passage - 1, score]));
+    // Stable sort, so ties and unscored passages keep their fused order
+    return documents
+      .map((document, index) => ({ document, score: scoreByIndex.get(index) ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ document }) => document);
+  } catch (error) {
+    console.error('Error reranking retrieved chunks, keeping fused order:', error);
+    return documents;
+  }
+}
+
+interface StoredChunk {
+  document: Document;
+  embedding: number[];
+}
+
+/**
+ * A document's chunks, only those inside `scope` when one is given
+ * Embeddings are only read when vector search has to run in-process
+ */
+async function loadChunks(documentId: string, scope: QuestionScope | null, withEmbeddings: boolean): Promise<StoredChunk[]> {
+  const pageRange = scope?.pageRange;
+  const chunks = await prisma.documentChunk.findMany({
+    where: {
+      documentId,
+      // Narrow by page in the database, sections are matched below
+      ...(pageRange && {
+        OR: [
+          { startPage: { lte: pageRange.end }, endPage: { gte: pageRange.start } },
+          { startPage: null, pageNumber: { gte: pageRange.start, lte: pageRange.end } },
+        ],
+      }),
+    },
+    orderBy: { chunkIndex: "asc" },
+    select: {
+      id: true,
+      content: true,
+      metadata: true,
+      pageNumber: true,
+      startPage: true,
+      endPage: true,
+      sectionHeading: true,
+      embedding: withEmbeddings,
+    },
+  });
+
+  return chunks
+    .filter(chunk => !scope || isChunkInScope(chunk, scope))
+    .map(chunk => ({
+      document: new Document({
+        pageContent: chunk.content,
+        metadata: {
+          ...((chunk.metadata as Record<string, any>) || {}),
+          chunkId: chunk.id,
+        },
+      }),
+      embedding: chunk.embedding || [],
+    }));
+}
+
+/**
+ * Rank chunks by cosine similarity to the query, for searches the vector store can't filter
+ */
+async function rankByEmbedding(chunks: StoredChunk[], query: string): Promise<Document[]> {
+  const embedded = chunks.filter(chunk => chunk.embedding.length > 0);
+  if (embedded.length === 0) return [];
+
+  const queryEmbedding = await getEmbeddings().embedQuery(query);
+  const [similarities] = cosineSimilarity([queryEmbedding], embedded.map(chunk => chunk.embedding));
+
+  return embedded
+    .map((chunk, index) => ({ document: chunk.document, similarity: similarities[index] }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .map(({ document }) => document);
+}
+
+/**
+ * Keyword index over all of a document's chunks, kept in memory between questions
+ * Keyed by the chunk count and newest chunk, so re-processing a document rebuilds it
+ */
+async function getDocumentKeywordIndex(documentId: string): Promise<Bm25Index> {
+  const { _count, _max } = await prisma.documentChunk.aggregate({
+    where: { documentId },
+    _count: true,
+    _max: { createdAt: true },
+  });
+  const cacheKey = `${documentId}:${_count}:${_max.createdAt?.getTime() ?? 0}`;
+
+  const cached = keywordIndexCache.get(cacheKey);
+  if (cached) {
+    // Move to the back so it is evicted last
+    keywordIndexCache.delete(cacheKey);
+    keywordIndexCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const index = loadChunks(documentId, null, false)
+    .then(chunks => buildBm25Index(chunks.map(chunk => chunk.document)));
+  // Failed loads are retried on the next call
+  index.catch(() => keywordIndexCache.delete(cacheKey));
+
+  keywordIndexCache.set(cacheKey, index);
+  if (keywordIndexCache.size > MAX_CACHED_INDEXES) {
+    keywordIndexCache.delete(keywordIndexCache.keys().next().value!);
+  }
+  return index;
+}
+
+/**
+ * The scope retrieval can actually keep to - null when no chunk falls inside it, so the
+ * whole document is searched rather than leaving the tutor with no context at all
+ */
+export async function resolveChunkScope(documentId: string, scope: QuestionScope | null): Promise<QuestionScope | null> {
+  if (!scope) return null;
+
+  const chunks = await loadChunks(documentId, scope, false);
+  if (chunks.length === 0) {
+    console.warn(`No chunks in scope "${describeQuestionScope(scope)}", searching the whole document`);
+    return null;
+  }
+  return scope;
+}
+
+/**
+ * Retriever combining embedding similarity with BM25 keyword search over a document's chunks
+ * Keyword search catches exact terms embeddings blur - formula names, section numbers, acronyms
+ * With a scope both searches only see the chunks inside it, see resolveChunkScope
+ */
+export function createHybridRetriever(
+  documentId: string,
+  vectorStore: VectorStore,
+  options: RetrievalOptions,
+  scope: QuestionScope | null = null
+): DocumentRetriever {
+  const { fetchK, vectorWeight, keywordWeight, rerank } = options;
+
+  return {
+    k: options.k,
+
+    async retrieve(query, k = options.k) {
+      const scopedChunks = scope ? await loadChunks(documentId, scope, vectorWeight > 0) : null;
+
+      const [vectorRanking, keywordRanking] = await Promise.all([
+        vectorWeight > 0
+          ? scopedChunks
+            ? rankByEmbedding(scopedChunks, query).then(ranking => ranking.slice(0, fetchK))
+            : vectorStore.similaritySearch(query, fetchK)
+          : [],
+        keywordWeight > 0
+          ? (scopedChunks
+            ? Promise.resolve(buildBm25Index(scopedChunks.map(chunk => chunk.document)))
+            : getDocumentKeywordIndex(documentId)
+          ).then(index => rankWithBm25(index, query).slice(0, fetchK))
+          : [],
+      ]);
+
+      const fused = fuseRankings([
+        { documents: vectorRanking, weight: vectorWeight },
+        { documents: keywordRanking, weight: keywordWeight },
+      ]);
+      console.log(`Hybrid retrieval: ${vectorRanking.length} vector and ${keywordRanking.length} keyword candidates, ${fused.length} fused`);
+
+      if (!rerank) {
+        return fused.slice(0, k);
+      }
+      const reranked = await rerankDocuments(query, fused.slice(0, k * RERANK_POOL_FACTOR));
+      return reranked.slice(0, k);
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import type { IngestionJob } from '@prisma/client';
+import { prisma } from './db';
+import { parsePdf } from './pdf-parser';
+import { chunkPages } from './chunker';
+import { embedDocumentChunks } from './vector-store';
+import { extractPdfAnnotations } from './pdf-import';
+import { replaceImportedAnnotations } from './annotations';
+
+// Jobs stuck in RUNNING longer than this are assumed to belong to a dead worker
+const STALE_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Delay before a failed job is retried, multiplied by the attempt number
+const RETRY_BACKOFF_MS = 30 * 1000;
+
+function getStaleBefore() {
+  return new Date(Date.now() - STALE_JOB_TIMEOUT_MS);
+}
+
+/**
+ * Queue a document for parsing, chunking and embedding
+ */
+export async function enqueueIngestion(documentId: string) {
+  const [job] = await prisma.$transaction([
+    prisma.ingestionJob.create({
+      data: { documentId },
+    }),
+    prisma.document.update({
+      where: { id: documentId },
+      data: {
+        processingStatus: 'QUEUED',
+        processingError: null,
+        processingProgress: 0,
+      },
+    }),
+  ]);
+
+  return job;
+}
+
+/**
+ * Whether the document's job is RUNNING under a worker that stopped updating it
+ */
+export async function hasStaleIngestionJob(documentId: string) {
+  const job = await prisma.ingestionJob.findFirst({
+    where: { documentId, status: 'RUNNING', lockedAt: { lt: getStaleBefore() } },
+    select: { id: true },
+  });
+
+  return Boolean(job);
+}
+
+/**
+ * Fail jobs whose worker died on their last attempt, so their documents stop showing as in progress
+ */
+async function failAbandonedJobs() {
+  const jobs = await prisma.ingestionJob.findMany({
+    where: {
+      status: 'RUNNING',
+      lockedAt: { lt: getStaleBefore() },
+      attempts: { gte: prisma.ingestionJob.fields.maxAttempts },
+    },
+    select: { id: true, documentId: true },
+  });
+  if (jobs.length === 0) return;
+
+  const message = 'Processing timed out';
+  console.error(`Failing ${jobs.length} abandoned ingestion jobs`);
+
+  await prisma.$transaction([
+    prisma.ingestionJob.updateMany({
+      where: { id: { in: jobs.map(job => job.id) } },
+      data: { status: 'FAILED', lastError: message, lockedAt: null },
+    }),
+    prisma.document.updateMany({
+      where: { id: { in: jobs.map(job => job.documentId) } },
+      data: { processingStatus: 'FAILED', processingError: message },
+    }),
+  ]);
+}
+
+/**
+ * Atomically claim the next runnable job (SKIP LOCKED keeps concurrent workers apart)
+ * Stale jobs are only reclaimed while they have attempts left, see failAbandonedJobs
+ */
+async function claimNextJob(): Promise<IngestionJob | null> {
+  const staleBefore = getStaleBefore();
+
+  const jobs = await prisma.$queryRaw<IngestionJob[]>`
+    UPDATE ingestion_jobs
+    SET status = 'RUNNING', "lockedAt" = NOW(), attempts = attempts + 1, "updatedAt" = NOW()
+    WHERE id = (
+      SELECT id FROM ingestion_jobs
+      WHERE (status = 'PENDING' AND "runAt" <= NOW())
+         OR (status = 'RUNNING' AND "lockedAt" < ${staleBefore} AND attempts < "maxAttempts")
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return jobs[0] || null;
+}
+
+/**
+ * Update the status shown on the dashboard while a document is processed
+ */
+async function setDocumentProgress(
+  documentId: string,
+  processingStatus: 'PARSING' | 'EMBEDDING' | 'READY',
+  processingProgress: number
+) {
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { processingStatus, processingProgress, processingError: null },
+  });
+}
+
+/**
+ * Bring in highlights and comments made in other readers - a PDF we can't read them from still gets processed
+ */
+async function importPdfAnnotations(documentId: string, userId: string, buffer: Buffer) {
+  try {
+    const imported = await replaceImportedAnnotations(
+      documentId,
+      userId,
+      extractPdfAnnotations(new Uint8Array(buffer))
+    );
+    if (imported > 0) {
+      console.log(`Imported ${imported} existing annotations from the PDF`);
+    }
+  } catch (error) {
+    console.warn('Failed to import existing PDF annotations:', error);
+  }
+}
+
+/**
+ * Parse, chunk and embed the document behind a job
+ */
+async function processJob(job: IngestionJob) {
+  const document = await prisma.document.findUnique({
+    where: { id: job.documentId },
+  });
+
+  if (!document) {
+    throw new Error('Document no longer exists');
+  }
+
+  await setDocumentProgress(document.id, 'PARSING', 10);
+
+  // Fetch PDF content from storage
+  const response = await fetch(document.fileUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download PDF (HTTP ${response.status})`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+
+  const { parser, pageCount, langchainDocs } = await parsePdf(buffer, document.originalName);
+  console.log(`Document processed with ${parser}! Found ${langchainDocs.length} sections.`);
+
+  await importPdfAnnotations(document.id, document.userId, buffer);
+
+  await setDocumentProgress(document.id, 'PARSING', 40);
+
+  // Split pages into chunks that keep their page range and section heading
+  const textChunks = chunkPages(langchainDocs, {
+    chunkSize: 1000,
+    chunkOverlap: 200
+  });
+  console.log(`Created ${textChunks.length} text chunks for vector storage`);
+
+  await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      pageCount,
+      textContent: langchainDocs.map(doc => doc.pageContent).join('\n'),
+      chunks: textChunks.map(chunk => ({
+        pageContent: chunk.pageContent,
+        metadata: chunk.metadata
+      })),
+    },
+  });
+
+  await setDocumentProgress(document.id, 'EMBEDDING', 60);
+
+  // Embed every chunk once so chat requests only embed the question
+  await embedDocumentChunks(document.id, textChunks);
+
+  await setDocumentProgress(document.id, 'READY', 100);
+}
+
+/**
+ * Record a failed attempt - retry with backoff or mark the document as FAILED
+ */
+async function handleJobFailure(job: IngestionJob, error: unknown) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const willRetry = job.attempts < job.maxAttempts;
+
+  console.error(`Ingestion job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+  // The document may have been deleted while the job ran, taking the job with it
+  await prisma.ingestionJob.updateMany({
+    where: { id: job.id },
+    data: {
+      status: willRetry ? 'PENDING' : 'FAILED',
+      lastError: message,
+      lockedAt: null,
+      runAt: new Date(Date.now() + RETRY_BACKOFF_MS * job.attempts),
+    },
+  });
+
+  await prisma.document.updateMany({
+    where: { id: job.documentId },
+    data: {
+      processingStatus: willRetry ? 'QUEUED' : 'FAILED',
+      processingError: message,
+    },
+  });
+}
+
+/**
+ * Work through queued ingestion jobs until the queue is empty or maxJobs is reached
+ * Retries aren't due yet when a run ends, so they wait for the next run - see GET /api/ingestion/run
+ */
+export async function runIngestionWorker({ maxJobs = 5 }: { maxJobs?: number } = {}) {
+  let processed = 0;
+  await failAbandonedJobs();
+
+  while (processed < maxJobs) {
+    const job = await claimNextJob();
+    if (!job) break;
+
+    console.log(`Running ingestion job ${job.id} for document ${job.documentId}`);
+
+    try {
+      await processJob(job);
+      await prisma.ingestionJob.updateMany({
+        where: { id: job.id },
+        data: { status: 'COMPLETED', lockedAt: null, lastError: null },
+      });
+    } catch (error) {
+      await handleJobFailure(job, error);
+    }
+
+    processed++;
+  }
+
+  return processed;
+}
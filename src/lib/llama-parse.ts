@@ -6,15 +6,13 @@ import * as os from "os";
 
 //Extract documents using LlamaParse for better PDF processing
 
-export async function extractDocumentsWithLlamaParse(file: File) {
+export async function extractDocumentsWithLlamaParse(buffer: Buffer, filename: string) {
   // Create temporary file
   const tempDir = os.tmpdir();
   const tempFilePath = path.join(tempDir, `upload_${Date.now()}.pdf`);
   
   try {
     // Write file to temporary location
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
     fs.writeFileSync(tempFilePath, buffer);
     
     // Initialize LlamaParseReader 
@@ -32,7 +30,7 @@ export async function extractDocumentsWithLlamaParse(file: File) {
       const doc = documents[i];
       const langchainDoc = new Document({
         pageContent: doc.text,
-        metadata: { source: file.name, page: i }
+        metadata: { source: filename, page: i + 1 }
       });
       langchainDocs.push(langchainDoc);
     }
@@ -0,0 +1,134 @@
+import * as mupdf from "mupdf";
+import { Document } from "@langchain/core/documents";
+import { invertMatrix, transformPoint, type Matrix, type PageView } from "./page-geometry";
+import type { OutlineEntry } from "@/types/pdf";
+
+export interface TextBlock {
+  // Block bounds in PDF points, origin at the top-left of the page
+  bbox: { x: number; y: number; width: number; height: number };
+  text: string;
+}
+
+export interface ExtractedPage {
+  // 1-based, matches the viewer and /api/pdf/search
+  pageNumber: number;
+  width: number;
+  height: number;
+  text: string;
+  blocks: TextBlock[];
+}
+
+/**
+ * How a page's PDF user space maps onto MuPDF page coordinates (CropBox origin, /Rotate applied)
+ */
+export function getPageView(page: mupdf.PDFPage): PageView {
+  const userToPage = page.getTransform() as Matrix;
+  const [x0, y0, x1, y1] = page.getBounds();
+  const corners = [
+    transformPoint(invertMatrix(userToPage), x0, y0),
+    transformPoint(invertMatrix(userToPage), x1, y1),
+  ];
+
+  return {
+    userToPage,
+    width: Math.abs(corners[1].x - corners[0].x),
+    height: Math.abs(corners[1].y - corners[0].y),
+  };
+}
+
+/**
+ * Collect the text blocks of a page from MuPDF structured text
+ */
+function extractPageBlocks(page: mupdf.Page): TextBlock[] {
+  const structuredText = page.toStructuredText("preserve-whitespace");
+  const blocks: TextBlock[] = [];
+
+  let lines: string[] = [];
+  let currentLine = "";
+  let blockBounds: mupdf.Rect | null = null;
+
+  structuredText.walk({
+    beginTextBlock(bbox) {
+      blockBounds = bbox;
+      lines = [];
+    },
+    beginLine() {
+      currentLine = "";
+    },
+    onChar(c) {
+      currentLine += c;
+    },
+    endLine() {
+      lines.push(currentLine);
+    },
+    endTextBlock() {
+      const text = lines.join("\n").trim();
+      if (blockBounds && text) {
+        const [x0, y0, x1, y1] = blockBounds;
+        blocks.push({
+          bbox: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 },
+          text,
+        });
+      }
+      blockBounds = null;
+    },
+  });
+
+  structuredText.destroy();
+  return blocks;
+}
+
+// Extract documents locally with MuPDF - no network access required
+
+export async function extractDocumentsWithMuPdf(buffer: Buffer, filename: string) {
+  const doc = mupdf.Document.openDocument(new Uint8Array(buffer), "application/pdf");
+
+  try {
+    const pages: ExtractedPage[] = [];
+
+    for (let pageIndex = 0; pageIndex < doc.countPages(); pageIndex++) {
+      const page = doc.loadPage(pageIndex);
+      const [x0, y0, x1, y1] = page.getBounds();
+      const blocks = extractPageBlocks(page);
+
+      pages.push({
+        pageNumber: pageIndex + 1,
+        width: x1 - x0,
+        height: y1 - y0,
+        text: blocks.map(block => block.text).join("\n\n"),
+        blocks,
+      });
+
+      page.destroy();
+    }
+
+    // Convert to LangChain documents, one per page
+    const langchainDocs = pages.map(page => new Document({
+      pageContent: page.text,
+      metadata: { source: filename, page: page.pageNumber }
+    }));
+
+    return { langchainDocs, pages };
+
+  } finally {
+    doc.destroy();
+  }
+}
+
+type OutlineItem = NonNullable<ReturnType<mupdf.Document["loadOutline"]>>[number];
+
+function toOutlineEntries(items: OutlineItem[]): OutlineEntry[] {
+  return items.map(item => ({
+    title: item.title?.trim() || "Untitled",
+    // MuPDF pages are 0-based, links to other files have no page
+    pageNumber: typeof item.page === "number" && item.page >= 0 ? item.page + 1 : null,
+    children: toOutlineEntries(item.down || []),
+  }));
+}
+
+/**
+ * Read the PDF's bookmarks (table of contents), empty when it has none
+ */
+export function extractOutline(doc: mupdf.Document): OutlineEntry[] {
+  return toOutlineEntries(doc.loadOutline() || []);
+}
@@ -0,0 +1,156 @@
+/**
+ * Coordinate spaces used for annotations
+ *
+ * - PDF user space: origin at the bottom-left of the MediaBox, y grows upwards. Text highlights
+ *   store their quads here so they survive any change in how the page is displayed.
+ * - Page space: what the viewer draws at 100% with no extra rotation - origin at the top-left
+ *   of the CropBox, y grows downwards, the page's own /Rotate applied. This matches MuPDF's
+ *   page coordinates and pdf.js' viewport at scale 1. Drawn shapes are stored here.
+ * - Screen space: page space after the viewer's zoom and rotation.
+ */
+
+// [a, b, c, d, e, f] - maps (x, y) to (a*x + c*y + e, b*x + d*y + f)
+export type Matrix = [number, number, number, number, number, number];
+
+// A quad in the MuPDF order: [ulx, uly, urx, ury, llx, lly, lrx, lry]
+export type Quad = [number, number, number, number, number, number, number, number];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * How a page's user space lines up with its page space
+ */
+export interface PageView {
+  userToPage: Matrix;
+  // CropBox size in PDF units, before any rotation
+  width: number;
+  height: number;
+}
+
+// Text highlight coordinates: quads in user space plus the size of the page they were made on
+export interface UserSpaceQuads {
+  quads: number[][];
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export function transformPoint([a, b, c, d, e, f]: Matrix, x: number, y: number): Point {
+  return { x: a * x + c * y + e, y: b * x + d * y + f };
+}
+
+/**
+ * Apply `first`, then `second`
+ */
+export function concatMatrix(first: Matrix, second: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ];
+}
+
+export function invertMatrix([a, b, c, d, e, f]: Matrix): Matrix {
+  const determinant = a * d - b * c;
+  if (determinant === 0) {
+    return [1, 0, 0, 1, 0, 0];
+  }
+
+  return [
+    d / determinant,
+    -b / determinant,
+    -c / determinant,
+    a / determinant,
+    (c * f - d * e) / determinant,
+    (b * e - a * f) / determinant,
+  ];
+}
+
+export function transformQuad(matrix: Matrix, quad: number[]): Quad {
+  const corners = [0, 2, 4, 6].map(i => transformPoint(matrix, quad[i], quad[i + 1]));
+  return corners.flatMap(({ x, y }) => [x, y]) as Quad;
+}
+
+/**
+ * Bounding box of a set of quads
+ */
+export function getQuadBounds(quads: number[][]) {
+  const xs = quads.flatMap(quad => [quad[0], quad[2], quad[4], quad[6]]);
+  const ys = quads.flatMap(quad => [quad[1], quad[3], quad[5], quad[7]]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+  };
+}
+
+/**
+ * Map page space onto the screen for a zoom level and a clockwise rotation (multiple of 90°)
+ * `pageSize` is the page space size, i.e. the page at 100% with no extra rotation
+ */
+export function getViewMatrix(pageSize: { width: number; height: number }, scale: number, rotation: number): Matrix {
+  const { width, height } = pageSize;
+
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      return [0, scale, -scale, 0, height * scale, 0];
+    case 180:
+      return [-scale, 0, 0, -scale, width * scale, height * scale];
+    case 270:
+      return [0, -scale, scale, 0, 0, width * scale];
+    default:
+      return [scale, 0, 0, scale, 0, 0];
+  }
+}
+
+/**
+ * Highlights made before quads were stored in user space keep page space quads
+ */
+export function hasUserSpaceQuads(coordinates: { quads?: number[][]; pageWidth?: number; pageHeight?: number }): coordinates is UserSpaceQuads {
+  return !!coordinates.quads?.length &&
+    typeof coordinates.pageWidth === 'number' &&
+    typeof coordinates.pageHeight === 'number';
+}
+
+/**
+ * Coordinates for a text highlight from quads in page space
+ * The bounding box stays in page space so hit testing and overlap checks don't need the page
+ */
+export function toHighlightCoordinates(pageQuads: number[][], view: PageView) {
+  const pageToUser = invertMatrix(view.userToPage);
+
+  return {
+    ...getQuadBounds(pageQuads),
+    quads: pageQuads.map(quad => transformQuad(pageToUser, quad)),
+    pageWidth: view.width,
+    pageHeight: view.height,
+  };
+}
+
+/**
+ * Quads of a highlight in page space, ready to draw or hit test
+ * Without the page's transform, assume a CropBox at the origin and no /Rotate
+ */
+export function getPageQuads(
+  coordinates: { quads?: number[][]; pageWidth?: number; pageHeight?: number },
+  userToPage?: Matrix
+): number[][] | undefined {
+  if (!hasUserSpaceQuads(coordinates)) {
+    return coordinates.quads;
+  }
+
+  const matrix = userToPage || [1, 0, 0, -1, 0, coordinates.pageHeight];
+  return coordinates.quads.map(quad => transformQuad(matrix, quad));
+}
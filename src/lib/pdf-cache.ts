@@ -0,0 +1,40 @@
+import * as mupdf from "mupdf";
+
+// Documents kept open in memory, least recently used are dropped first
+const MAX_OPEN_DOCUMENTS = 4;
+
+const openDocuments = new Map<string, Promise<mupdf.Document>>();
+
+async function fetchPdf(fileUrl: string): Promise<Uint8Array> {
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch PDF: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * A document's PDF, downloaded and opened once and kept open for later requests
+ * Callers must not destroy it - dropped documents are freed by MuPDF's finalizer, since another
+ * request may still be reading them. A re-uploaded file has a new URL, so it is never reused
+ */
+export function openDocumentPdf(document: { id: string; fileUrl: string }): Promise<mupdf.Document> {
+  const cacheKey = `${document.id}:${document.fileUrl}`;
+  const cached = openDocuments.get(cacheKey);
+  if (cached) {
+    // Move to the back so it is evicted last
+    openDocuments.delete(cacheKey);
+    openDocuments.set(cacheKey, cached);
+    return cached;
+  }
+
+  const pdf = fetchPdf(document.fileUrl).then(bytes => mupdf.Document.openDocument(bytes, "application/pdf"));
+  // Failed downloads are retried on the next call
+  pdf.catch(() => openDocuments.delete(cacheKey));
+
+  openDocuments.set(cacheKey, pdf);
+  if (openDocuments.size > MAX_OPEN_DOCUMENTS) {
+    openDocuments.delete(openDocuments.keys().next().value!);
+  }
+  return pdf;
+}
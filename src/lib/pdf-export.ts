@@ -0,0 +1,300 @@
+import * as mupdf from "mupdf";
+import type { Annotation, MessageRole } from "@prisma/client";
+import { getPageQuads, type Matrix } from "./page-geometry";
+
+// Annotation coordinates as stored by the viewer, in PDF points from the top-left of the page
+interface StoredCoordinates {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  radius?: number;
+  points?: Array<{ x: number; y: number }>;
+  quads?: number[][];
+  pageWidth?: number;
+  pageHeight?: number;
+  strokes?: Array<Array<{ x: number; y: number }>>;
+}
+
+export interface TranscriptMessage {
+  role: MessageRole;
+  content: string;
+  timestamp: Date;
+}
+
+export interface ExportOptions {
+  // Shown as the author of annotations the user drew
+  userName?: string | null;
+  // Appended after the last page when set
+  transcript?: {
+    title: string;
+    messages: TranscriptMessage[];
+  };
+}
+
+// Match the viewer: AI highlights are red, notes are a fixed-size icon
+const AI_ANNOTATION_COLOR = "#ff0000";
+const AI_ANNOTATION_OPACITY = 0.15;
+const NOTE_SIZE = 20;
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  red: [1, 0, 0],
+  yellow: [1, 1, 0],
+  green: [0, 0.5, 0],
+  blue: [0, 0, 1],
+  orange: [1, 0.65, 0],
+  purple: [0.5, 0, 0.5],
+  black: [0, 0, 0],
+};
+
+/**
+ * Convert a CSS hex or named color into the 0-1 RGB triple MuPDF expects
+ */
+function toPdfColor(color: string): [number, number, number] {
+  const value = color.trim().toLowerCase();
+
+  if (NAMED_COLORS[value]) {
+    return NAMED_COLORS[value];
+  }
+
+  const hex = value.replace(/^#/, "");
+  const expanded = hex.length === 3 ? hex.split("").map(c => c + c).join("") : hex;
+  if (/^[0-9a-f]{6}$/.test(expanded)) {
+    return [0, 2, 4].map(i => parseInt(expanded.slice(i, i + 2), 16) / 255) as [number, number, number];
+  }
+
+  return NAMED_COLORS.yellow;
+}
+
+function rectQuad(x0: number, y0: number, x1: number, y1: number): mupdf.Quad {
+  return [x0, y0, x1, y0, x0, y1, x1, y1];
+}
+
+/**
+ * Write one stored annotation onto the page as a native PDF annotation
+ */
+function addPageAnnotation(page: mupdf.PDFPage, annotation: Annotation, options: ExportOptions) {
+  const coordinates = annotation.coordinates as unknown as StoredCoordinates;
+  const { x, y, width, height, radius, points, strokes } = coordinates;
+  // MuPDF page coordinates are our page space, so user space quads go through the page transform
+  const quads = getPageQuads(coordinates, page.getTransform() as Matrix);
+  const isUserAnnotation = annotation.source !== "AI";
+  const color = toPdfColor(isUserAnnotation ? annotation.color : AI_ANNOTATION_COLOR);
+  const opacity = isUserAnnotation ? annotation.opacity : AI_ANNOTATION_OPACITY;
+
+  let pdfAnnotation: mupdf.PDFAnnotation;
+
+  switch (annotation.type) {
+    case "HIGHLIGHT":
+      pdfAnnotation = page.createAnnotation("Highlight");
+      pdfAnnotation.setQuadPoints(
+        quads?.length
+          ? quads.map(quad => quad as mupdf.Quad)
+          : [rectQuad(x, y, x + (width || 200), y + (height || 20))]
+      );
+      break;
+    case "UNDERLINE":
+      // The viewer stores the underline itself, the markup quad sits just above it
+      pdfAnnotation = page.createAnnotation("Underline");
+      pdfAnnotation.setQuadPoints(
+        quads?.length
+          ? quads.map(quad => quad as mupdf.Quad)
+          : [rectQuad(x, y - 10, x + (width || 200), y + 1)]
+      );
+      break;
+    case "RECTANGLE":
+      pdfAnnotation = page.createAnnotation("Square");
+      pdfAnnotation.setRect([x, y, x + (width || 100), y + (height || 50)]);
+      pdfAnnotation.setBorderWidth(2);
+      break;
+    case "CIRCLE": {
+      const r = radius || 30;
+      pdfAnnotation = page.createAnnotation("Circle");
+      pdfAnnotation.setRect([x - r, y - r, x + r, y + r]);
+      pdfAnnotation.setBorderWidth(2);
+      pdfAnnotation.setInteriorColor(color);
+      break;
+    }
+    case "ARROW": {
+      const from = points?.[0] || { x, y };
+      const to = points?.[1] || { x: x + (width || 50), y };
+      pdfAnnotation = page.createAnnotation("Line");
+      pdfAnnotation.setLine([from.x, from.y], [to.x, to.y]);
+      pdfAnnotation.setLineEndingStyles("None", "ClosedArrow");
+      pdfAnnotation.setBorderWidth(2);
+      pdfAnnotation.setInteriorColor(color);
+      break;
+    }
+    case "INK":
+      if (!strokes?.length) return;
+      pdfAnnotation = page.createAnnotation("Ink");
+      pdfAnnotation.setInkList(strokes.map(stroke => stroke.map(point => [point.x, point.y] as mupdf.Point)));
+      pdfAnnotation.setBorderWidth(2);
+      break;
+    case "NOTE":
+      pdfAnnotation = page.createAnnotation("Text");
+      pdfAnnotation.setRect([x, y, x + NOTE_SIZE, y + NOTE_SIZE]);
+      pdfAnnotation.setIcon("Note");
+      break;
+    default:
+      return;
+  }
+
+  pdfAnnotation.setColor(color);
+  // Sticky notes stay opaque enough to spot, like in the viewer
+  pdfAnnotation.setOpacity(annotation.type === "NOTE" ? Math.max(opacity, 0.8) : opacity);
+  pdfAnnotation.setAuthor(isUserAnnotation ? options.userName || "You" : "AI Tutor");
+  pdfAnnotation.setCreationDate(annotation.createdAt);
+  pdfAnnotation.setModificationDate(annotation.updatedAt);
+
+  if (annotation.content) {
+    pdfAnnotation.setContents(annotation.content);
+
+    // Give the note a popup next to the annotation so readers can open it
+    const [, y0, x1] = pdfAnnotation.getBounds();
+    pdfAnnotation.setPopup([x1 + 4, y0, x1 + 204, y0 + 100]);
+  }
+
+  pdfAnnotation.update();
+}
+
+// Layout of the appended transcript pages (US Letter)
+const TRANSCRIPT_PAGE: mupdf.Rect = [0, 0, 612, 792];
+const TRANSCRIPT_MARGIN = 56;
+const TRANSCRIPT_FONT_SIZE = 10;
+const TRANSCRIPT_LINE_HEIGHT = 14;
+
+/**
+ * Simple fonts only cover Latin-1, swap the common typographic characters and drop the rest
+ */
+function toLatin1(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/•/g, "-")
+    .replace(/[^\n\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Break text into lines that fit the page width using the font's glyph advances
+ */
+function wrapText(text: string, font: mupdf.Font, fontSize: number, maxWidth: number): string[] {
+  const measure = (value: string) =>
+    [...value].reduce((total, c) => total + font.advanceGlyph(font.encodeCharacter(c)) * fontSize, 0);
+
+  return text.split("\n").flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = "";
+
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+
+    lines.push(line);
+    return lines;
+  });
+}
+
+/**
+ * Append the conversation as plain text pages at the end of the document
+ */
+function appendTranscript(doc: mupdf.PDFDocument, transcript: NonNullable<ExportOptions["transcript"]>) {
+  const font = new mupdf.Font("Helvetica");
+  const boldFont = new mupdf.Font("Helvetica-Bold");
+  const resources = doc.addObject({
+    Font: {
+      F1: doc.addSimpleFont(font, "Latin"),
+      F2: doc.addSimpleFont(boldFont, "Latin"),
+    },
+  });
+
+  const [, , pageWidth, pageHeight] = TRANSCRIPT_PAGE;
+  const textWidth = pageWidth - TRANSCRIPT_MARGIN * 2;
+  const linesPerPage = Math.floor((pageHeight - TRANSCRIPT_MARGIN * 2) / TRANSCRIPT_LINE_HEIGHT);
+
+  // Each entry is a line of text with the font it's set in, "" leaves a gap
+  const lines: Array<{ text: string; bold: boolean }> = [
+    { text: toLatin1(`Conversation: ${transcript.title}`), bold: true },
+    { text: "", bold: false },
+  ];
+
+  transcript.messages.forEach(message => {
+    const speaker = message.role === "USER" ? "You" : "AI Tutor";
+    lines.push({ text: `${speaker} - ${message.timestamp.toLocaleString("en-US")}`, bold: true });
+    wrapText(toLatin1(message.content), font, TRANSCRIPT_FONT_SIZE, textWidth)
+      .forEach(text => lines.push({ text, bold: false }));
+    lines.push({ text: "", bold: false });
+  });
+
+  for (let start = 0; start < lines.length; start += linesPerPage) {
+    const pageLines = lines.slice(start, start + linesPerPage);
+    const contents = [
+      "BT",
+      `${TRANSCRIPT_LINE_HEIGHT} TL`,
+      `${TRANSCRIPT_MARGIN} ${pageHeight - TRANSCRIPT_MARGIN} Td`,
+      ...pageLines.map(line =>
+        `/${line.bold ? "F2" : "F1"} ${TRANSCRIPT_FONT_SIZE} Tf (${escapePdfString(line.text)}) Tj T*`
+      ),
+      "ET",
+    ].join("\n");
+
+    const page = doc.addPage(TRANSCRIPT_PAGE, 0, resources, Buffer.from(contents, "latin1"));
+    doc.insertPage(-1, page);
+  }
+}
+
+/**
+ * Burn stored annotations into a copy of the PDF as native annotations,
+ * so they show up in any PDF reader
+ */
+export function exportAnnotatedPdf(
+  pdf: Uint8Array,
+  annotations: Annotation[],
+  options: ExportOptions = {}
+): Uint8Array {
+  const doc = mupdf.Document.openDocument(pdf, "application/pdf").asPDF();
+  if (!doc) {
+    throw new Error("Document is not a PDF");
+  }
+
+  try {
+    const pageCount = doc.countPages();
+
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+      // Imported annotations are still in the original file, writing them again would double them
+      const pageAnnotations = annotations.filter(annotation =>
+        annotation.pageNumber === pageIndex + 1 && annotation.source !== "IMPORTED"
+      );
+      if (pageAnnotations.length === 0) continue;
+
+      const page = doc.loadPage(pageIndex) as mupdf.PDFPage;
+      pageAnnotations.forEach(annotation => addPageAnnotation(page, annotation, options));
+      page.update();
+      page.destroy();
+    }
+
+    if (options.transcript && options.transcript.messages.length > 0) {
+      appendTranscript(doc, options.transcript);
+    }
+
+    // The buffer is a view into MuPDF's memory, copy it out before freeing
+    const output = doc.saveToBuffer("garbage,compress");
+    const bytes = output.asUint8Array().slice();
+    output.destroy();
+    return bytes;
+  } finally {
+    doc.destroy();
+  }
+}
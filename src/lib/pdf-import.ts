@@ -0,0 +1,131 @@
+import * as mupdf from "mupdf";
+import type { AnnotationInput } from "./annotations";
+import { getPageView } from "./mupdf-parse";
+import { toHighlightCoordinates, type PageView } from "./page-geometry";
+
+/**
+ * Convert a MuPDF color (gray, RGB or CMYK components in 0-1) into a CSS hex color
+ */
+function toHexColor(color: mupdf.AnnotColor): string | undefined {
+  let rgb: number[];
+
+  switch (color.length) {
+    case 1:
+      rgb = [color[0], color[0], color[0]];
+      break;
+    case 3:
+      rgb = [...color];
+      break;
+    case 4: {
+      const [c, m, y, k] = color;
+      rgb = [c, m, y].map(value => (1 - value) * (1 - k));
+      break;
+    }
+    default:
+      return undefined;
+  }
+
+  return `#${rgb.map(value => Math.round(value * 255).toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Map one native annotation onto our annotation types, null for kinds we don't show (links, widgets, popups...)
+ */
+function convertAnnotation(annotation: mupdf.PDFAnnotation, pageNumber: number, pageView: PageView): AnnotationInput | null {
+  const contents = annotation.getContents() || undefined;
+  const color = toHexColor(annotation.getColor());
+  const opacity = Math.min(Math.max(annotation.getOpacity(), 0), 1);
+  const base = { pageNumber, color, opacity, content: contents };
+
+  switch (annotation.getType()) {
+    case "Highlight": {
+      const quads = annotation.getQuadPoints();
+      if (quads.length === 0) return null;
+      return { ...base, type: "HIGHLIGHT", coordinates: toHighlightCoordinates(quads, pageView) };
+    }
+    case "Underline":
+    case "Squiggly": {
+      const quads = annotation.getQuadPoints();
+      if (quads.length === 0) return null;
+      const coordinates = toHighlightCoordinates(quads, pageView);
+      // The viewer draws an underline at y, so put it at the bottom of the text
+      return {
+        ...base,
+        type: "UNDERLINE",
+        coordinates: { ...coordinates, y: coordinates.y + coordinates.height },
+      };
+    }
+    case "Ink": {
+      const strokes = annotation.getInkList()
+        .filter(stroke => stroke.length > 1)
+        .map(stroke => stroke.map(([x, y]) => ({ x, y })));
+      if (strokes.length === 0) return null;
+      const [x0, y0, x1, y1] = annotation.getBounds();
+      return { ...base, type: "INK", coordinates: { x: x0, y: y0, width: x1 - x0, height: y1 - y0, strokes } };
+    }
+    case "Text":
+    case "FreeText": {
+      const [x, y] = annotation.getRect();
+      return { ...base, type: "NOTE", coordinates: { x, y } };
+    }
+    case "Square": {
+      const [x0, y0, x1, y1] = annotation.getRect();
+      return { ...base, type: "RECTANGLE", coordinates: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 } };
+    }
+    case "Circle": {
+      const [x0, y0, x1, y1] = annotation.getRect();
+      return {
+        ...base,
+        type: "CIRCLE",
+        coordinates: { x: (x0 + x1) / 2, y: (y0 + y1) / 2, radius: Math.max(x1 - x0, y1 - y0) / 2 },
+      };
+    }
+    case "Line": {
+      const [from, to] = annotation.getLine().map(([x, y]) => ({ x, y }));
+      return {
+        ...base,
+        type: "ARROW",
+        coordinates: { x: from.x, y: from.y, width: Math.abs(to.x - from.x), points: [from, to] },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read the highlights, comments and drawings other readers saved into a PDF
+ */
+export function extractPdfAnnotations(pdf: Uint8Array): AnnotationInput[] {
+  const doc = mupdf.Document.openDocument(pdf, "application/pdf").asPDF();
+  if (!doc) {
+    return [];
+  }
+
+  try {
+    const annotations: AnnotationInput[] = [];
+
+    for (let pageIndex = 0; pageIndex < doc.countPages(); pageIndex++) {
+      const page = doc.loadPage(pageIndex) as mupdf.PDFPage;
+      const pageView = getPageView(page);
+
+      page.getAnnotations().forEach(annotation => {
+        try {
+          const converted = convertAnnotation(annotation, pageIndex + 1, pageView);
+          if (converted) {
+            annotations.push(converted);
+          }
+        } catch (error) {
+          // One malformed annotation shouldn't lose the rest
+          console.warn(`Skipping unreadable annotation on page ${pageIndex + 1}:`, error);
+        }
+      });
+
+      page.destroy();
+    }
+
+    return annotations;
+  } finally {
+    doc.destroy();
+  }
+}
@@ -0,0 +1,84 @@
+import type { Document } from "@langchain/core/documents";
+import { extractDocumentsWithLlamaParse } from "./llama-parse";
+import { extractDocumentsWithMuPdf, type ExtractedPage } from "./mupdf-parse";
+
+export type PdfParserName = "llamaparse" | "mupdf";
+
+export interface ParsedPdf {
+  parser: PdfParserName;
+  pageCount: number;
+  // One LangChain document per page, ready for chunking
+  langchainDocs: Document[];
+  // Per-page layout, only available from parsers that read the PDF locally
+  pages?: ExtractedPage[];
+}
+
+/**
+ * Something that can turn an uploaded PDF into page documents
+ */
+interface PdfParser {
+  name: PdfParserName;
+  parse(buffer: Buffer, filename: string): Promise<ParsedPdf>;
+}
+
+/**
+ * LlamaCloud parser - best markdown quality, needs LLAMA_CLOUD_API_KEY and network access
+ */
+const llamaParseParser: PdfParser = {
+  name: "llamaparse",
+
+  async parse(buffer, filename) {
+    const { langchainDocs, documents } = await extractDocumentsWithLlamaParse(buffer, filename);
+    return { parser: "llamaparse", pageCount: documents.length, langchainDocs };
+  },
+};
+
+/**
+ * Local MuPDF parser - plain text with real page numbers and block bounding boxes
+ */
+const muPdfParser: PdfParser = {
+  name: "mupdf",
+
+  async parse(buffer, filename) {
+    const { langchainDocs, pages } = await extractDocumentsWithMuPdf(buffer, filename);
+    return { parser: "mupdf", pageCount: pages.length, langchainDocs, pages };
+  },
+};
+
+/**
+ * Resolve the configured parser (PDF_PARSER)
+ * Defaults to LlamaParse when a LlamaCloud key is present, otherwise MuPDF
+ */
+export function getPdfParser(): PdfParser {
+  const configured = process.env.PDF_PARSER?.toLowerCase();
+  const parser = configured || (process.env.LLAMA_CLOUD_API_KEY ? "llamaparse" : "mupdf");
+
+  switch (parser) {
+    case "llamaparse":
+      return llamaParseParser;
+    case "mupdf":
+      return muPdfParser;
+    default:
+      console.warn(`Unknown PDF_PARSER "${parser}", falling back to mupdf`);
+      return muPdfParser;
+  }
+}
+
+/**
+ * Parse a PDF with the configured parser, falling back to MuPDF if it fails
+ */
+export async function parsePdf(buffer: Buffer, filename: string): Promise<ParsedPdf> {
+  const parser = getPdfParser();
+
+  try {
+    console.log(`Processing file with ${parser.name}...`);
+    return await parser.parse(buffer, filename);
+  } catch (error) {
+    if (parser.name === muPdfParser.name) {
+      throw error;
+    }
+
+    console.warn(`${parser.name} failed, falling back to local MuPDF extraction:`, error);
+    return muPdfParser.parse(buffer, filename);
+  }
+}
@@ -0,0 +1,42 @@
+import * as mupdf from "mupdf";
+import { getPageView } from "./mupdf-parse";
+import { toHighlightCoordinates, type PageView } from "./page-geometry";
+
+export type HighlightCoordinates = ReturnType<typeof toHighlightCoordinates>;
+
+export interface PdfSearchHit {
+  pageNumber: number;
+  // One quad per line of the match, in PDF user space
+  coordinates: HighlightCoordinates;
+}
+
+/**
+ * Every match of `text` on a page, as highlight coordinates
+ * MuPDF's search is case-insensitive and matches across line breaks
+ */
+export function searchPage(page: mupdf.PDFPage, text: string, pageView: PageView = getPageView(page)): HighlightCoordinates[] {
+  return page.search(text).map(quads => toHighlightCoordinates(quads, pageView));
+}
+
+/**
+ * Find all occurrences of `query` in the PDF, in page order
+ * Stops after `maxHits` so very common words stay cheap
+ */
+export function findInPdf(doc: mupdf.Document, query: string, maxHits: number): { hits: PdfSearchHit[]; truncated: boolean } {
+  const hits: PdfSearchHit[] = [];
+
+  for (let pageIndex = 0; pageIndex < doc.countPages(); pageIndex++) {
+    const page = doc.loadPage(pageIndex) as mupdf.PDFPage;
+    const pageHits = searchPage(page, query);
+    page.destroy();
+
+    for (const coordinates of pageHits) {
+      if (hits.length === maxHits) {
+        return { hits, truncated: true };
+      }
+      hits.push({ pageNumber: pageIndex + 1, coordinates });
+    }
+  }
+
+  return { hits, truncated: false };
+}
@@ -0,0 +1,199 @@
+import { Document, type DocumentInterface } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStore, type MaxMarginalRelevanceSearchOptions } from "@langchain/core/vectorstores";
+import { maximalMarginalRelevance } from "@langchain/core/utils/math";
+import { prisma } from "./db";
+import { chunkProvenanceColumns } from "./chunker";
+import { EMBEDDING_MODEL, getEmbeddingDimensions } from "./embeddings";
+
+interface ChunkRow {
+  id: string;
+  content: string;
+  metadata: Record<string, any> | null;
+  similarity: number;
+  embedding?: number[];
+}
+
+/**
+ * Format a vector as a pgvector literal, e.g. "[0.1,0.2]"
+ */
+export function toSqlVector(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
+
+let pgVectorColumnReady: Promise<void> | null = null;
+
+/**
+ * Create the vector extension and the chunk vector column on first use, sized for EMBEDDING_MODEL
+ * They stay out of the Prisma schema so the memory backend works on Postgres without pgvector
+ * `prisma db push` drops the column it doesn't know about, so missing vectors are refilled here
+ */
+function ensurePgVectorColumn(): Promise<void> {
+  if (!pgVectorColumnReady) {
+    pgVectorColumnReady = (async () => {
+      const dimensions = getEmbeddingDimensions();
+      await prisma.$executeRaw`CREATE EXTENSION IF NOT EXISTS vector`;
+
+      const [column] = await prisma.$queryRaw<Array<{ type: string }>>`
+        SELECT format_type(atttypid, atttypmod) AS type
+        FROM pg_attribute
+        WHERE attrelid = 'document_chunks'::regclass AND attname = 'embeddingVector' AND NOT attisdropped
+      `;
+      if (!column) {
+        // A number from our own table, so safe to inline - the type modifier can't be a parameter
+        await prisma.$executeRawUnsafe(
+          `ALTER TABLE document_chunks ADD COLUMN "embeddingVector" vector(${dimensions})`
+        );
+      } else if (column.type !== `vector(${dimensions})`) {
+        throw new Error(
+          `document_chunks."embeddingVector" is ${column.type} but ${EMBEDDING_MODEL} produces ${dimensions} dimensions - ` +
+          `drop the column and re-process documents embedded with the previous model`
+        );
+      }
+
+      await prisma.$executeRaw`
+        UPDATE document_chunks
+        SET "embeddingVector" = embedding::vector
+        WHERE "embeddingVector" IS NULL AND cardinality(embedding) = ${dimensions}
+      `;
+    })();
+    // Try again on the next call rather than caching the failure
+    pgVectorColumnReady.catch(() => {
+      pgVectorColumnReady = null;
+    });
+  }
+  return pgVectorColumnReady;
+}
+
+/**
+ * Copy the stored Float[] embeddings of a document into its pgvector column
+ */
+export async function syncPgVectorColumn(documentId: string) {
+  await ensurePgVectorColumn();
+  await prisma.$executeRaw`
+    UPDATE document_chunks
+    SET "embeddingVector" = embedding::vector
+    WHERE "documentId" = ${documentId} AND cardinality(embedding) > 0
+  `;
+}
+
+/**
+ * LangChain vector store backed by the DocumentChunk table and pgvector
+ * Each instance is scoped to a single document so similarity search runs in the database
+ */
+export class PgVectorStore extends VectorStore {
+  declare FilterType: { pageNumber?: number };
+
+  private documentId: string;
+
+  constructor(embeddings: EmbeddingsInterface, fields: { documentId: string }) {
+    super(embeddings, fields);
+    this.documentId = fields.documentId;
+  }
+
+  _vectorstoreType(): string {
+    return "pgvector";
+  }
+
+  async addVectors(vectors: number[][], documents: DocumentInterface[]): Promise<string[]> {
+    const lastChunk = await prisma.documentChunk.findFirst({
+      where: { documentId: this.documentId },
+      orderBy: { chunkIndex: "desc" },
+      select: { chunkIndex: true },
+    });
+    const startIndex = lastChunk ? lastChunk.chunkIndex + 1 : 0;
+
+    const ids: string[] = [];
+    for (let i = 0; i < documents.length; i++) {
+      const chunk = await prisma.documentChunk.create({
+        data: {
+          documentId: this.documentId,
+          chunkIndex: startIndex + i,
+          ...chunkProvenanceColumns(documents[i]),
+          content: documents[i].pageContent,
+          metadata: documents[i].metadata || {},
+          embedding: vectors[i],
+        },
+        select: { id: true },
+      });
+      ids.push(chunk.id);
+    }
+
+    await syncPgVectorColumn(this.documentId);
+    return ids;
+  }
+
+  async addDocuments(documents: DocumentInterface[]): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map(doc => doc.pageContent)
+    );
+    return this.addVectors(vectors, documents);
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: this["FilterType"]
+  ): Promise<[DocumentInterface, number][]> {
+    const rows = await this.queryNearest(query, k, filter, false);
+    return rows.map(row => [this.toDocument(row), row.similarity]);
+  }
+
+  async maxMarginalRelevanceSearch(
+    query: string,
+    options: MaxMarginalRelevanceSearchOptions<this["FilterType"]>
+  ): Promise<DocumentInterface[]> {
+    const { k, fetchK = 20, lambda = 0.5, filter } = options;
+    const queryEmbedding = await this.embeddings.embedQuery(query);
+
+    // Let the database narrow down candidates, then diversify them in-process
+    const candidates = await this.queryNearest(queryEmbedding, fetchK, filter, true);
+    const selectedIndexes = maximalMarginalRelevance(
+      queryEmbedding,
+      candidates.map(row => row.embedding || []),
+      lambda,
+      k
+    );
+
+    return selectedIndexes.map(index => this.toDocument(candidates[index]));
+  }
+
+  private async queryNearest(
+    query: number[],
+    k: number,
+    filter: this["FilterType"] | undefined,
+    includeEmbedding: boolean
+  ): Promise<ChunkRow[]> {
+    await ensurePgVectorColumn();
+    const vector = toSqlVector(query);
+    const pageNumber = filter?.pageNumber ?? null;
+
+    // Cosine distance (<=>) - similarity is reported as 1 - distance
+    const rows = await prisma.$queryRaw<ChunkRow[]>`
+      SELECT
+        id,
+        content,
+        metadata,
+        1 - ("embeddingVector" <=> ${vector}::vector) AS similarity,
+        embedding
+      FROM document_chunks
+      WHERE "documentId" = ${this.documentId}
+        AND "embeddingVector" IS NOT NULL
+        AND (${pageNumber}::int IS NULL OR "pageNumber" = ${pageNumber}::int)
+      ORDER BY "embeddingVector" <=> ${vector}::vector
+      LIMIT ${k}
+    `;
+
+    return includeEmbedding ? rows : rows.map(({ embedding, ...row }) => row);
+  }
+
+  private toDocument(row: ChunkRow): Document {
+    return new Document({
+      pageContent: row.content,
+      metadata: {
+        ...(row.metadata || {}),
+        chunkId: row.id,
+      },
+    });
+  }
+}
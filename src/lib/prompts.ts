@@ -1,30 +1,64 @@
-import { PromptTemplate } from "@langchain/core/prompts";
+import { ChatPromptTemplate, MessagesPlaceholder, PromptTemplate } from "@langchain/core/prompts";
 
 /**
- * Custom prompt template
+ * Name of the function the model must call to return its answer
  */
-export const CUSTOM_PROMPT_TEMPLATE = `
-Use the following pieces of context to answer the user question. If you
-don't know the answer, just say that you don't know, don't try to make up an
-answer.
+export const TUTOR_ANSWER_TOOL = "submit_tutor_answer";
 
-{context}
+/**
+ * System prompt for the tutor - the answer shape is enforced by the tool schema
+ */
+export const TUTOR_SYSTEM_PROMPT = `
+You are an AI tutor helping a student understand a document. Use only the
+provided context chunks to answer the student's question. If you don't know
+the answer from the context, say that you don't know - don't try to make up
+an answer.
 
-Question: {question}
+Each context chunk starts with a header like [chunk_id: <id> | page: <n>],
+or [chunk_id: <id> | pages: <from>-<to>] when it spans pages, optionally
+followed by the section it belongs to.
+Always respond by calling the ${TUTOR_ANSWER_TOOL} function. For every source
+quote, copy the supporting sentence or passage VERBATIM from a single chunk
+and report that chunk's id and the page the quote appears on. In the answer,
+cite the quotes inline with their 1-based position in the sources list, like
+[1] or [2, 3], right after the claim they support. ONLY RELEVANT TEXT DIRECTLY FROM THE
+DOCUMENTS. DO NOT ADD ANYTHING EXTRA. DO NOT INVENT ANYTHING.
+`;
 
-Please provide your answer in the following JSON format: 
-{{
-    "answer": "Your detailed answer here",
-    "sources": "Direct sentences or paragraphs from the context that support 
-        your answers. ONLY RELEVANT TEXT DIRECTLY FROM THE DOCUMENTS. DO NOT 
-        ADD ANYTHING EXTRA. DO NOT INVENT ANYTHING."
-}}
+export const TUTOR_ANSWER_PROMPT = ChatPromptTemplate.fromMessages([
+  ["system", TUTOR_SYSTEM_PROMPT],
+  // Recent turns of the conversation, already trimmed to a token budget
+  new MessagesPlaceholder("history"),
+  ["human", "Context:\n\n{context}\n\nQuestion: {question}"],
+]);
 
-The JSON must be a valid json format and can be read with json.loads() in
-Python. Answer:
-`;
+/**
+ * Turns a follow-up question into a standalone one for retrieval
+ */
+export const CONDENSE_QUESTION_PROMPT = PromptTemplate.fromTemplate(`
+Given the following conversation between a student and a tutor and a follow-up
+question, rephrase the follow-up question to be a standalone question that can
+be used to search the document. Resolve pronouns and references like "that" or
+"the second one" using the conversation. If the question is already standalone,
+return it unchanged. Return ONLY the standalone question.
+
+Conversation:
+{chat_history}
+
+Follow-up question: {question}
+
+Standalone question:`);
+
+/**
+ * Scores retrieved passages for the rerank stage of hybrid retrieval
+ */
+export const RERANK_PROMPT = PromptTemplate.fromTemplate(`
+Rate how useful each numbered passage is for answering the question, from 0
+(unrelated) to 10 (directly answers it). Judge only the passage text, not its
+position in the list. Return a score for every passage.
+
+Question: {question}
 
-export const CUSTOM_PROMPT = new PromptTemplate({
-  template: CUSTOM_PROMPT_TEMPLATE,
-  inputVariables: ["context", "question"]
-});
\ No newline at end of file
+Passages:
+{passages}
+`);
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { Document } from "@langchain/core/documents";
+import { initializeLanguageModel } from "./language-model";
+import { TUTOR_ANSWER_PROMPT, TUTOR_ANSWER_TOOL } from "./prompts";
+import { createJsonStringFieldExtractor } from "./chat-stream";
+import { findPageInChunk } from "./chunker";
+import type { DocumentRetriever } from "./hybrid-retrieval";
+import { condenseQuestion, selectHistoryWindow, toChatMessages, type ChatTurn } from "./conversation-memory";
+
+// How many times malformed model output is retried before giving up
+const MAX_ANSWER_ATTEMPTS = 3;
+
+/**
+ * Schema the model's function call arguments must satisfy
+ */
+export const tutorAnswerSchema = z.object({
+  answer: z.string().min(1).describe("Your detailed answer to the student's question, citing sources inline as [1], [2]... by their position in sources"),
+  sources: z.array(z.object({
+    quote: z.string().min(1).describe("A sentence or passage copied verbatim from one context chunk"),
+    chunkId: z.string().min(1).describe("The chunk_id of the chunk the quote was copied from"),
+    page: z.number().int().describe("The page number the quote appears on"),
+  })).describe("Quotes from the context that support the answer"),
+  confidence: z.number().min(0).max(1).describe("How well the context supports the answer, from 0 to 1"),
+});
+
+export type TutorAnswer = z.infer<typeof tutorAnswerSchema>;
+export type SourceCitation = TutorAnswer["sources"][number];
+
+// Chunk id given to a passage the student selected in the viewer
+export const SELECTED_PASSAGE_CHUNK_ID = "selected-passage";
+
+export interface SelectedPassage {
+  text: string;
+  pageNumber: number;
+}
+
+interface AnswerQuestionOptions {
+  // Earlier turns of the conversation, oldest first
+  history?: ChatTurn[];
+  // Called with each new piece of the answer text as it is generated
+  onToken?: (text: string) => void;
+  // Called before a retry so streamed text from the failed attempt can be discarded
+  onRetry?: (attempt: number, reason: string) => void;
+  // Text selected in the PDF - retrieval is pinned to it instead of the question
+  passage?: SelectedPassage;
+}
+
+/**
+ * Wrap a selected passage as a context chunk so it can be cited like any other
+ */
+function toPassageDocument(passage: SelectedPassage): Document {
+  return new Document({
+    pageContent: passage.text,
+    metadata: {
+      chunkId: SELECTED_PASSAGE_CHUNK_ID,
+      page: passage.pageNumber,
+      startPage: passage.pageNumber,
+      endPage: passage.pageNumber,
+      pageBreaks: [],
+    },
+  });
+}
+
+/**
+ * Label each chunk with its id, pages and section so the model can cite it
+ */
+function formatContext(documents: Document[]): string {
+  return documents
+    .map(doc => {
+      const { chunkId, page, startPage, endPage, sectionHeading } = doc.metadata;
+      const pages = startPage && endPage && endPage !== startPage
+        ? `pages: ${startPage}-${endPage}`
+        : `page: ${startPage ?? page ?? "unknown"}`;
+      const section = sectionHeading ? ` | section: ${sectionHeading}` : "";
+      return `[chunk_id: ${chunkId} | ${pages}${section}]\n${doc.pageContent}`;
+    })
+    .join("\n\n---\n\n");
+}
+
+/**
+ * Tie each citation to a retrieved chunk, trusting the chunk's own pages over the model's
+ */
+function normalizeCitations(citations: SourceCitation[], sourceDocuments: Document[]): SourceCitation[] {
+  return citations.map(citation => {
+    const chunk = sourceDocuments.find(doc => doc.metadata.chunkId === citation.chunkId);
+    const page = chunk ? findPageInChunk(chunk, citation.quote) : null;
+    if (page !== null) {
+      return { ...citation, page };
+    }
+    return citation;
+  });
+}
+
+/**
+ * Answer a question about a document with validated, structured output
+ * Retrieves context, forces a function call and validates its arguments with zod
+ */
+export async function answerQuestion(
+  retriever: DocumentRetriever,
+  question: string,
+  options: AnswerQuestionOptions = {}
+) {
+  const { passage } = options;
+
+  // Follow-ups like "explain that more simply" need the conversation to be searchable
+  const history = selectHistoryWindow(options.history || []);
+  const retrievalQuery = passage
+    ? passage.text
+    : await condenseQuestion(history, question);
+
+  // The selected passage takes one of the context slots
+  const retrievedDocuments = await retriever.retrieve(
+    retrievalQuery,
+    passage ? Math.max(1, retriever.k - 1) : retriever.k
+  );
+  const sourceDocuments = passage
+    ? [toPassageDocument(passage), ...retrievedDocuments]
+    : retrievedDocuments;
+  console.log(`Retrieved ${retrievedDocuments.length} chunks for the question`);
+
+  const messages = await TUTOR_ANSWER_PROMPT.formatMessages({
+    history: toChatMessages(history),
+    context: formatContext(sourceDocuments),
+    question: passage
+      ? `${question}\n\nThe student selected this passage on page ${passage.pageNumber} (chunk_id: ${SELECTED_PASSAGE_CHUNK_ID}):\n"${passage.text}"`
+      : question,
+  });
+
+  const model = initializeLanguageModel().bindTools(
+    [{
+      name: TUTOR_ANSWER_TOOL,
+      description: "Submit the answer to the student's question together with its supporting source quotes",
+      schema: tutorAnswerSchema,
+    }],
+    { tool_choice: TUTOR_ANSWER_TOOL }
+  );
+
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= MAX_ANSWER_ATTEMPTS; attempt++) {
+    if (attempt > 1) {
+      options.onRetry?.(attempt, lastError);
+    }
+
+    // Stream the function call arguments, forwarding the "answer" field as it's written
+    const answerExtractor = createJsonStringFieldExtractor("answer");
+    let rawArguments = "";
+
+    const stream = await model.stream(messages);
+    for await (const chunk of stream) {
+      for (const toolCallChunk of chunk.tool_call_chunks || []) {
+        if (!toolCallChunk.args) continue;
+
+        rawArguments += toolCallChunk.args;
+        const text = answerExtractor.push(toolCallChunk.args);
+        if (text) {
+          options.onToken?.(text);
+        }
+      }
+    }
+
+    let parsedArguments: unknown;
+    try {
+      parsedArguments = JSON.parse(rawArguments);
+    } catch {
+      lastError = "function call arguments were not valid JSON";
+      console.warn(`Attempt ${attempt}: ${lastError}`);
+      continue;
+    }
+
+    const validation = tutorAnswerSchema.safeParse(parsedArguments);
+    if (!validation.success) {
+      lastError = validation.error.issues
+        .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      console.warn(`Attempt ${attempt}: answer failed schema validation - ${lastError}`);
+      continue;
+    }
+
+    return {
+      retrievalQuery,
+      answer: validation.data.answer,
+      citations: normalizeCitations(validation.data.sources, sourceDocuments),
+      confidence: validation.data.confidence,
+      sourceDocuments,
+    };
+  }
+
+  throw new Error(`The model returned malformed output ${MAX_ANSWER_ATTEMPTS} times: ${lastError}`);
+}
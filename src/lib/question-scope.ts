@@ -0,0 +1,95 @@
+import { z } from "zod";
+import type { QuestionScope } from "@/types/chat";
+
+/**
+ * Scope sent with a question to /api/chat
+ */
+export const questionScopeSchema = z.object({
+  pageRange: z.object({
+    start: z.number().int().min(1),
+    end: z.number().int().min(1),
+  }).refine(range => range.end >= range.start, {
+    message: "The page range must not end before it starts",
+  }).optional(),
+  section: z.string().trim().min(1).max(100).optional(),
+}).refine(scope => scope.pageRange || scope.section, {
+  message: "A scope needs a page range or a section",
+});
+
+// "page 12", "on pages 10-12", "pp. 4 to 6"
+const PAGE_PATTERN = /\b(?:pages?|pp?\.)\s*(\d{1,4})(?:\s*(?:-|–|to|through)\s*(\d{1,4}))?\b/i;
+// "chapter 3", "in section 2.1", "part 4"
+const SECTION_PATTERN = /\b(chapter|section|part)\s+(\d+(?:\.\d+)*)\b/i;
+
+/**
+ * Pick up a page or section the question refers to, null when it is about the whole document
+ */
+export function parseQuestionScope(question: string): QuestionScope | null {
+  const pageMatch = question.match(PAGE_PATTERN);
+  if (pageMatch) {
+    const start = parseInt(pageMatch[1]);
+    const end = pageMatch[2] ? parseInt(pageMatch[2]) : start;
+    if (start >= 1 && end >= start) {
+      return { pageRange: { start, end } };
+    }
+  }
+
+  const sectionMatch = question.match(SECTION_PATTERN);
+  if (sectionMatch) {
+    return { section: `${sectionMatch[1].toLowerCase()} ${sectionMatch[2]}` };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a chunk's closest heading belongs to the section
+ * Numbered sections include their subsections, so "3" covers "3 Methods", "3.1 Setup" and
+ * "Chapter 3: Methods" but not "30 Results" - anything else matches on the heading text
+ */
+function matchesSection(heading: string | null, section: string): boolean {
+  if (!heading) return false;
+
+  const normalizedHeading = heading.toLowerCase().replace(/^[#*\s]+/, "");
+  const wanted = section.toLowerCase().trim();
+  const numbered = wanted.match(/^(?:(?:chapter|section|part)\s+)?(\d+(?:\.\d+)*)$/);
+
+  if (numbered) {
+    const number = numbered[1].replace(/\./g, "\\.");
+    return new RegExp(`^(?:(?:chapter|section|part)\\s+)?${number}(?![\\d])`).test(normalizedHeading);
+  }
+  return normalizedHeading.includes(wanted);
+}
+
+/**
+ * Whether a stored chunk falls inside the scope, by its page range and section heading
+ */
+export function isChunkInScope(
+  chunk: { pageNumber: number; startPage: number | null; endPage: number | null; sectionHeading: string | null },
+  scope: QuestionScope
+): boolean {
+  if (scope.pageRange) {
+    const startPage = chunk.startPage ?? chunk.pageNumber;
+    const endPage = chunk.endPage ?? startPage;
+    if (endPage < scope.pageRange.start || startPage > scope.pageRange.end) {
+      return false;
+    }
+  }
+
+  return !scope.section || matchesSection(chunk.sectionHeading, scope.section);
+}
+
+/**
+ * Short label for a scope, e.g. "page 12", "pages 3-5" or "chapter 3"
+ */
+export function describeQuestionScope(scope: QuestionScope): string {
+  const parts: string[] = [];
+  if (scope.pageRange) {
+    const { start, end } = scope.pageRange;
+    parts.push(start === end ? `page ${start}` : `pages ${start}-${end}`);
+  }
+  if (scope.section) {
+    parts.push(scope.section);
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,111 @@
+/**
+ * Helpers for turning a text selection in the rendered PDF into page geometry
+ */
+
+import { invertMatrix, toHighlightCoordinates, transformPoint, type Matrix, type PageView, type Quad } from "./page-geometry";
+
+export interface PageTextSelection {
+  text: string;
+  pageNumber: number;
+  // Highlight coordinates - one quad per selected line in PDF user space
+  coordinates: ReturnType<typeof toHighlightCoordinates>;
+  // Where the selection ends on screen, used to place the popover
+  anchor: { x: number; y: number };
+}
+
+type LineRect = { left: number; top: number; right: number; bottom: number };
+
+/**
+ * Merge the per-glyph/per-span rects of a range into one rect per line
+ */
+function mergeLineRects(rects: LineRect[]): LineRect[] {
+  const lines: LineRect[] = [];
+
+  [...rects]
+    .filter(rect => rect.right > rect.left && rect.bottom > rect.top)
+    .sort((a, b) => a.top - b.top || a.left - b.left)
+    .forEach(rect => {
+      const center = (rect.top + rect.bottom) / 2;
+      const line = lines.find(existing =>
+        center >= existing.top && center <= existing.bottom
+      );
+
+      if (line) {
+        line.left = Math.min(line.left, rect.left);
+        line.right = Math.max(line.right, rect.right);
+        line.top = Math.min(line.top, rect.top);
+        line.bottom = Math.max(line.bottom, rect.bottom);
+      } else {
+        lines.push({ ...rect });
+      }
+    });
+
+  return lines;
+}
+
+/**
+ * Read the current browser selection if it lies inside the given page element
+ * `viewMatrix` maps page space onto the rendered page (zoom and rotation), `view` maps user space onto page space
+ */
+export function getPageTextSelection(
+  pageElement: HTMLElement,
+  pageNumber: number,
+  viewMatrix: Matrix,
+  view: PageView,
+  relativeTo: HTMLElement
+): PageTextSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+    return null;
+  }
+
+  const range = selection.getRangeAt(0);
+  if (!pageElement.contains(range.commonAncestorContainer)) {
+    return null;
+  }
+
+  const text = selection.toString().replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return null;
+  }
+
+  const pageRect = pageElement.getBoundingClientRect();
+  const screenToPage = invertMatrix(viewMatrix);
+
+  // Undo zoom and rotation first, so lines are merged the way the text runs on the page
+  const clientRects = Array.from(range.getClientRects());
+  const lines = mergeLineRects(clientRects.map(rect => {
+    const a = transformPoint(screenToPage, rect.left - pageRect.left, rect.top - pageRect.top);
+    const b = transformPoint(screenToPage, rect.right - pageRect.left, rect.bottom - pageRect.top);
+    return {
+      left: Math.min(a.x, b.x),
+      top: Math.min(a.y, b.y),
+      right: Math.max(a.x, b.x),
+      bottom: Math.max(a.y, b.y)
+    };
+  }));
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const quads = lines.map((line): Quad => [
+    line.left, line.top,
+    line.right, line.top,
+    line.left, line.bottom,
+    line.right, line.bottom
+  ]);
+
+  const lastRect = clientRects[clientRects.length - 1];
+  const containerRect = relativeTo.getBoundingClientRect();
+
+  return {
+    text,
+    pageNumber,
+    coordinates: toHighlightCoordinates(quads, view),
+    anchor: {
+      x: lastRect.right - containerRect.left,
+      y: lastRect.bottom - containerRect.top
+    }
+  };
+}
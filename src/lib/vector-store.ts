@@ -1,62 +1,194 @@
 import { Document } from "@langchain/core/documents";
-import { CharacterTextSplitter } from "langchain/text_splitter";
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
-import { RetrievalQAChain } from "langchain/chains";
-import { getEmbeddings } from "./embeddings";
-import { initializeLanguageModel } from "./language-model";
-import { CUSTOM_PROMPT } from "./prompts";
+import type { VectorStore } from "@langchain/core/vectorstores";
+import { prisma } from "./db";
+import { EMBEDDING_MODEL, getEmbeddings } from "./embeddings";
+import { chunkProvenanceColumns } from "./chunker";
+import { PgVectorStore, syncPgVectorColumn } from "./pgvector-store";
+
+export type VectorStoreProvider = "memory" | "pgvector";
 
 /**
- * Setup QA system using Memory Vector Store with OpenAI embeddings
- * Modified to avoid native dependency compatibility issues
+ * A place where a document's chunk vectors can be searched
+ * Chunk rows and their Float[] embeddings are always the source of truth
  */
-export async function setupQASystemWithLlamaCloud(documents: Document[], projectName = "pdf_chat") {
-  try {
-    console.log(`Setting up QA system with ${documents.length} documents`);
-    
-    // If documents are already chunks, use them directly, otherwise split them
-    let textChunks = documents;
-    
-    // Check if we need to split the documents (if they're too large)
-    const needsSplitting = documents.some(doc => doc.pageContent.length > 2000);
-    
-    if (needsSplitting) {
-      console.log('Splitting large documents into chunks...');
-      const textSplitter = new CharacterTextSplitter({
-        chunkSize: 1000,    
-        chunkOverlap: 200   
-      });
-      textChunks = await textSplitter.splitDocuments(documents);
-      console.log(`Created ${textChunks.length} text chunks`);
-    }
-    
-    // Create Memory Vector Store - no native dependencies required
-    console.log('Creating Memory Vector Store...');
-    const vectorStore = await MemoryVectorStore.fromDocuments(textChunks, getEmbeddings());
-    
-    const retriever = vectorStore.asRetriever({
-      searchType: "mmr",          
-      searchKwargs: { fetchK: 8 }, 
-      k: 4                         
+interface VectorStoreBackend {
+  provider: VectorStoreProvider;
+  // Prepare the backend after a document's chunk embeddings were (re)written
+  index(documentId: string): Promise<void>;
+  // Open a vector store scoped to a single document
+  open(documentId: string): Promise<VectorStore>;
+}
+
+/**
+ * In-memory backend - loads the stored vectors into a MemoryVectorStore per request
+ */
+const memoryBackend: VectorStoreBackend = {
+  provider: "memory",
+
+  async index() {
+    // Nothing to prepare, vectors are read from DocumentChunk on open
+  },
+
+  async open(documentId) {
+    const storedChunks = await prisma.documentChunk.findMany({
+      where: { documentId },
+      orderBy: { chunkIndex: "asc" },
     });
-    
-
-    console.log('Creating RetrievalQA chain...');
-    const qaChain = RetrievalQAChain.fromLLM(
-      initializeLanguageModel(),
-      retriever,
-      {
-        prompt: CUSTOM_PROMPT,        
-        returnSourceDocuments: true   
-      }
+
+    console.log(`Loading ${storedChunks.length} stored chunk embeddings...`);
+    const vectorStore = new MemoryVectorStore(getEmbeddings());
+    await vectorStore.addVectors(
+      storedChunks.map(chunk => chunk.embedding),
+      storedChunks.map(chunk => new Document({
+        pageContent: chunk.content,
+        metadata: {
+          ...((chunk.metadata as Record<string, any>) || {}),
+          chunkId: chunk.id,
+        }
+      }))
     );
-    
-    console.log('QA system setup completed successfully');
-    return qaChain;
-    
-  } catch (error) {
-    console.error(`Error setting up QA system: ${error}`);
-    console.error('Error details:', error);
+
+    return vectorStore;
+  },
+};
+
+/**
+ * Postgres backend - similarity search runs in the database via pgvector
+ */
+const pgVectorBackend: VectorStoreBackend = {
+  provider: "pgvector",
+
+  async index(documentId) {
+    await syncPgVectorColumn(documentId);
+  },
+
+  async open(documentId) {
+    return new PgVectorStore(getEmbeddings(), { documentId });
+  },
+};
+
+/**
+ * Resolve the configured backend (VECTOR_STORE_PROVIDER, defaults to memory)
+ */
+export function getVectorStoreBackend(): VectorStoreBackend {
+  const provider = (process.env.VECTOR_STORE_PROVIDER || "memory").toLowerCase();
+
+  switch (provider) {
+    case "pgvector":
+      return pgVectorBackend;
+    case "memory":
+      return memoryBackend;
+    default:
+      console.warn(`Unknown VECTOR_STORE_PROVIDER "${provider}", falling back to memory`);
+      return memoryBackend;
+  }
+}
+
+/**
+ * Embed document chunks once and store the vectors on DocumentChunk rows
+ * Returns a summary that is kept on Document.vectorStore
+ */
+export async function embedDocumentChunks(documentId: string, chunks: Document[]) {
+  console.log(`Embedding ${chunks.length} chunks for document ${documentId}...`);
+
+  const embeddings = await getEmbeddings().embedDocuments(
+    chunks.map(chunk => chunk.pageContent)
+  );
+
+  // Replace any previous chunk rows so re-processing stays idempotent
+  await prisma.$transaction([
+    prisma.documentChunk.deleteMany({ where: { documentId } }),
+    prisma.documentChunk.createMany({
+      data: chunks.map((chunk, index) => ({
+        documentId,
+        chunkIndex: index,
+        ...chunkProvenanceColumns(chunk),
+        content: chunk.pageContent,
+        metadata: chunk.metadata || {},
+        embedding: embeddings[index],
+      })),
+    }),
+  ]);
+
+  const backend = getVectorStoreBackend();
+  await backend.index(documentId);
+
+  const vectorStoreInfo = {
+    provider: backend.provider,
+    model: EMBEDDING_MODEL,
+    dimensions: embeddings[0]?.length ?? 0,
+    chunkCount: chunks.length,
+    embeddedAt: new Date().toISOString(),
+  };
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { vectorStore: vectorStoreInfo },
+  });
+
+  console.log(`Stored ${chunks.length} chunk embeddings`);
+  return vectorStoreInfo;
+}
+
+/**
+ * Make sure a document's chunks are embedded for the configured backend
+ * Returns false if the document has no processed chunks at all
+ */
+async function ensureDocumentEmbeddings(documentId: string): Promise<boolean> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { chunks: true, vectorStore: true },
+  });
+  if (!document) {
+    return false;
+  }
+
+  const missingEmbeddings = await prisma.documentChunk.count({
+    where: { documentId, embedding: { isEmpty: true } },
+  });
+  const embeddedChunks = await prisma.documentChunk.count({ where: { documentId } });
+
+  if (embeddedChunks > 0 && missingEmbeddings === 0) {
+    // Vectors exist, but may have been indexed for a different backend
+    const backend = getVectorStoreBackend();
+    const indexedFor = (document.vectorStore as { provider?: string } | null)?.provider;
+    if (indexedFor !== backend.provider) {
+      await backend.index(documentId);
+      await prisma.document.update({
+        where: { id: documentId },
+        data: { vectorStore: { ...(document.vectorStore as object || {}), provider: backend.provider } },
+      });
+    }
+    return true;
+  }
+
+  // Documents uploaded before embeddings were persisted only have JSON chunks - backfill once
+  const legacyChunks = (document.chunks as any[] | null) || [];
+  if (legacyChunks.length === 0) {
+    return false;
+  }
+
+  console.log('No stored embeddings found, backfilling from document chunks...');
+  await embedDocumentChunks(
+    documentId,
+    legacyChunks.map(chunk => new Document({
+      pageContent: chunk.pageContent,
+      metadata: chunk.metadata || {}
+    }))
+  );
+  return true;
+}
+
+/**
+ * Open a vector store over a document's stored chunk vectors
+ * Only the query has to be embedded at question time
+ */
+export async function loadDocumentVectorStore(documentId: string): Promise<VectorStore | null> {
+  const hasEmbeddings = await ensureDocumentEmbeddings(documentId);
+  if (!hasEmbeddings) {
     return null;
   }
-}
\ No newline at end of file
+
+  return getVectorStoreBackend().open(documentId);
+}
@@ -33,9 +33,11 @@ export default withAuth(
                           req.nextUrl.pathname.startsWith('/register');
         const isPublicPage = req.nextUrl.pathname === '/';
         const isAPIAuth = req.nextUrl.pathname.startsWith('/api/auth');
+        // Called by a scheduler, which authenticates with CRON_SECRET instead
+        const isIngestionRun = req.nextUrl.pathname === '/api/ingestion/run';
         
-        // Allow access to auth pages, public pages, and auth API routes
-        if (isAuthPage || isPublicPage || isAPIAuth) {
+        // Allow access to auth pages, public pages, auth API routes and the ingestion trigger
+        if (isAuthPage || isPublicPage || isAPIAuth || isIngestionRun) {
           return true;
         }
 
@@ -4,9 +4,78 @@ export interface Conversation {
   createdAt: Date;
   updatedAt: Date;
   lastMessageAt: Date;
+  archivedAt?: Date | null;
   userId: string;
   documentId: string;
   messages?: Message[];
+  messageCount?: number; // Included in list responses
+}
+
+export interface SourceCitation {
+  quote: string;
+  chunkId: string;
+  page: number;
+  verification?: CitationVerification;
+}
+
+// How well a cited quote matches the document, each score from 0 to 1 (found verbatim)
+export interface CitationVerification {
+  // Against the retrieved chunk the quote claims to come from
+  chunkScore: number;
+  // Against the PDF's own text layer, null when the chunk already backs the quote or the PDF couldn't be read
+  pageScore: number | null;
+  // False when neither is close enough - the quote may be made up
+  supported: boolean;
+}
+
+// A numbered [n] marker in an answer, bound to the highlights of the quote it cites
+export interface CitationMarker {
+  number: number;
+  quote: string;
+  pageNumber: number;
+  annotationIds: string[];
+  // False when the quote couldn't be found in the document
+  supported?: boolean;
+}
+
+// Part of the document a question is restricted to
+export interface QuestionScope {
+  // 1-based, inclusive
+  pageRange?: { start: number; end: number };
+  // A chapter or section - "chapter 3", "3.2" or a heading such as "Methods"
+  section?: string;
+}
+
+// Text selected in the PDF that a question is about
+export interface PassageContext {
+  text: string;
+  pageNumber: number;
+}
+
+export interface SourceDocument {
+  pageContent: string;
+  metadata: Record<string, any>;
+  // 1-based page range of the chunk, offsets are within the start and end page
+  startPage: number | null;
+  endPage: number | null;
+  startOffset: number | null;
+  endOffset: number | null;
+  sectionHeading: string | null;
+}
+
+// Result of POST /api/chat, also the payload of the stream's `done` event
+export interface ChatResponse {
+  answer: string;
+  // Cited quotes to highlight in the PDF, those verification found in the document
+  sources: string[];
+  citations: SourceCitation[];
+  confidence: number;
+  sourceDocuments: SourceDocument[];
+  // The scope retrieval kept to, null when it searched the whole document
+  scope: QuestionScope | null;
+  conversationId: string;
+  userMessageId: string;
+  messageId: string;
 }
 
 export interface Message {
@@ -17,8 +86,13 @@ export interface Message {
     annotations?: any[];
     navigateTo?: number;
     sources?: string[];
-    sourceDocuments?: any[];
+    citations?: SourceCitation[];
+    confidence?: number;
+    sourceDocuments?: SourceDocument[];
     pageMappings?: Array<{excerpt: string, pages: number[]}>;
+    citationMarkers?: CitationMarker[];
+    passage?: PassageContext;
+    scope?: QuestionScope;
     [key: string]: any;
   };
   timestamp: Date;
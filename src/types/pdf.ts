@@ -1,3 +1,5 @@
+export type ProcessingStatus = 'QUEUED' | 'PARSING' | 'EMBEDDING' | 'READY' | 'FAILED';
+
 export interface Document {
   id: string;
   title: string;
@@ -11,6 +13,9 @@ export interface Document {
   uploadedAt: Date | string;
   lastAccessedAt: Date | string;
   userId?: string; // Optional for frontend display
+  processingStatus?: ProcessingStatus;
+  processingError?: string | null;
+  processingProgress?: number;
   
   // Additional fields from API responses
   conversationCount?: number;
@@ -29,6 +34,18 @@ export interface DocumentUploadResponse {
     fileSize: number;
     pageCount: number;
     uploadedAt: Date | string;
+    processingStatus: ProcessingStatus;
+  };
+}
+
+// Processing status response from API
+export interface DocumentStatusResponse {
+  data: {
+    id: string;
+    pageCount: number;
+    processingStatus: ProcessingStatus;
+    processingError: string | null;
+    processingProgress: number;
   };
 }
 
@@ -54,7 +71,7 @@ export interface PDFViewerProps {
 // Forward declaration for Annotation type
 export interface Annotation {
   id: string;
-  type: 'HIGHLIGHT' | 'CIRCLE' | 'ARROW' | 'RECTANGLE' | 'NOTE' | 'UNDERLINE';
+  type: 'HIGHLIGHT' | 'CIRCLE' | 'ARROW' | 'RECTANGLE' | 'NOTE' | 'UNDERLINE' | 'INK';
   pageNumber: number;
   coordinates: {
     x: number;
@@ -63,10 +80,59 @@ export interface Annotation {
     height?: number;
     radius?: number;
     points?: Array<{ x: number; y: number }>;
+    quads?: number[][]; // Text highlights, one [ulx, uly, urx, ury, llx, lly, lrx, lry] per line
+    pageWidth?: number; // Set when quads are in PDF user space - the page size they were made on
+    pageHeight?: number;
+    strokes?: Array<Array<{ x: number; y: number }>>; // Freehand ink imported from the PDF
   };
   content?: string;
   color: string;
   opacity: number;
   createdAt: Date;
   documentId: string;
+  source?: AnnotationSource;
+  userId?: string | null; // Author of a USER annotation, the uploader for IMPORTED ones
+  messageIds?: string[]; // Assistant messages this highlight was generated for
+}
+
+// AI highlights come from answers, USER annotations are drawn in the viewer,
+// IMPORTED ones were already saved in the uploaded PDF by another reader
+export type AnnotationSource = 'AI' | 'USER' | 'IMPORTED';
+
+// A user annotation that has been drawn but not stored yet
+export type AnnotationDraft = Pick<Annotation, 'type' | 'pageNumber' | 'coordinates' | 'color' | 'opacity' | 'content'>;
+
+// Changes that can be made to a stored user annotation
+export type AnnotationChanges = Partial<Pick<Annotation, 'coordinates' | 'color' | 'opacity' | 'content'>>;
+
+// Annotations list response from API
+export interface AnnotationsListResponse {
+  data: Annotation[];
+}
+
+// A bookmark from the PDF's table of contents
+export interface OutlineEntry {
+  title: string;
+  pageNumber: number | null; // null for bookmarks that point outside the document
+  children: OutlineEntry[];
+}
+
+// Outline response from API
+export interface DocumentOutlineResponse {
+  data: OutlineEntry[];
+}
+
+// A match from the viewer's find bar
+export interface FindHit {
+  pageNumber: number;
+  coordinates: Annotation['coordinates']; // Quads in PDF user space, like text highlights
+}
+
+// Find response from API
+export interface DocumentFindResponse {
+  data: {
+    query: string;
+    hits: FindHit[];
+    truncated: boolean; // More matches than the API returns
+  };
 }